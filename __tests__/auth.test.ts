@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import {
+  credentialHeaders,
+  fetchFollowingRedirects,
+  loadCredentials,
+  parseBasicAuth,
+  parseCookieFile,
+  parseHeader,
+  type Credentials,
+} from "../src/auth.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NETSCAPE_COOKIES = [
+  "# Netscape HTTP Cookie File",
+  "",
+  ".example.com\tTRUE\t/\tTRUE\t0\tsession\tabc123",
+  "#HttpOnly_portal.example.com\tFALSE\t/app\tFALSE\t4102444800\ttoken\tx\ty",
+  "malformed line",
+].join("\n");
+
+function makeCredentials(overrides: Partial<Credentials> = {}): Credentials {
+  return {
+    origin: "https://portal.example.com",
+    headers: { "X-Api-Key": "secret" },
+    basicAuth: null,
+    cookies: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("auth", () => {
+  describe("parseHeader() / parseBasicAuth()", () => {
+    it("should split a header at the first colon", () => {
+      expect(parseHeader("Authorization: Bearer a:b")).toEqual([
+        "Authorization",
+        "Bearer a:b",
+      ]);
+      expect(() => parseHeader("no-colon")).toThrow(/Invalid header/);
+    });
+
+    it("should allow colons in the basic auth password", () => {
+      expect(parseBasicAuth("admin:pa:ss")).toEqual({
+        username: "admin",
+        password: "pa:ss",
+      });
+      expect(() => parseBasicAuth("admin")).toThrow(/Invalid basic auth/);
+    });
+  });
+
+  describe("parseCookieFile()", () => {
+    it("should parse Netscape cookies.txt", () => {
+      const cookies = parseCookieFile(NETSCAPE_COOKIES);
+
+      expect(cookies).toHaveLength(2);
+      expect(cookies[0]).toMatchObject({
+        name: "session",
+        value: "abc123",
+        domain: ".example.com",
+        secure: true,
+        expires: -1,
+        httpOnly: false,
+      });
+      expect(cookies[1]).toMatchObject({
+        name: "token",
+        value: "x\ty",
+        domain: "portal.example.com",
+        path: "/app",
+        httpOnly: true,
+        expires: 4102444800,
+      });
+    });
+
+    it("should parse JSON cookie arrays and storage state files", () => {
+      const cookie = { name: "sid", value: "1", domain: "example.com" };
+
+      expect(parseCookieFile(JSON.stringify([cookie]))[0]).toMatchObject({
+        ...cookie,
+        path: "/",
+        expires: -1,
+      });
+      expect(
+        parseCookieFile(JSON.stringify({ cookies: [cookie], origins: [] }))
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("credentialHeaders()", () => {
+    it("should send headers and basic auth only to the scanned origin", () => {
+      const credentials = makeCredentials({
+        basicAuth: { username: "admin", password: "hunter2" },
+      });
+
+      expect(
+        credentialHeaders(credentials, "https://portal.example.com/page")
+      ).toEqual({
+        "X-Api-Key": "secret",
+        Authorization: `Basic ${Buffer.from("admin:hunter2").toString("base64")}`,
+      });
+      expect(credentialHeaders(credentials, "https://cdn.other.com/x")).toEqual({});
+    });
+
+    it("should send cookies by domain, path, secure flag and expiry", () => {
+      const now = Date.parse("2030-01-01T00:00:00Z");
+      const credentials = makeCredentials({
+        headers: {},
+        cookies: parseCookieFile(NETSCAPE_COOKIES).concat({
+          name: "old",
+          value: "1",
+          domain: "portal.example.com",
+          path: "/",
+          expires: 946684800,
+          httpOnly: false,
+          secure: false,
+          sameSite: "Lax",
+        }),
+      });
+      const cookieFor = (url: string) =>
+        credentialHeaders(credentials, url, now)["Cookie"];
+
+      expect(cookieFor("https://portal.example.com/app/home")).toBe(
+        "session=abc123; token=x\ty"
+      );
+      expect(cookieFor("https://portal.example.com/application")).toBe(
+        "session=abc123"
+      );
+      expect(cookieFor("https://www.example.com/")).toBe("session=abc123");
+      expect(cookieFor("http://example.com/")).toBeUndefined();
+      expect(cookieFor("https://example.org/")).toBeUndefined();
+    });
+  });
+
+  describe("fetchFollowingRedirects()", () => {
+    it("should compute each hop's headers for that hop's URL", async () => {
+      const credentials = makeCredentials();
+      const seen: Array<[string, string | null]> = [];
+      const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+        const url = String(input);
+        seen.push([url, new Headers(init?.headers).get("X-Api-Key")]);
+        const next: Record<string, string> = {
+          "https://portal.example.com/robots.txt": "/robots-live.txt",
+          "https://portal.example.com/robots-live.txt": "https://cdn.other.com/robots.txt",
+        };
+        return next[url]
+          ? new Response(null, { status: 301, headers: { Location: next[url]! } })
+          : new Response("User-agent: *");
+      }) as typeof fetch;
+
+      const { response, url } = await fetchFollowingRedirects(
+        "https://portal.example.com/robots.txt",
+        { headers: (hopUrl) => credentialHeaders(credentials, hopUrl), fetch: fetchImpl }
+      );
+
+      expect(response.status).toBe(200);
+      expect(url).toBe("https://cdn.other.com/robots.txt");
+      expect(seen).toEqual([
+        ["https://portal.example.com/robots.txt", "secret"],
+        ["https://portal.example.com/robots-live.txt", "secret"],
+        ["https://cdn.other.com/robots.txt", null],
+      ]);
+    });
+  });
+
+  describe("loadCredentials()", () => {
+    it("should read cookies from the storage state and cookie files", () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-test-"));
+      const statePath = path.join(tmpDir, "state.json");
+      const cookiesPath = path.join(tmpDir, "cookies.txt");
+      fs.writeFileSync(
+        statePath,
+        JSON.stringify({
+          cookies: [{ name: "sid", value: "1", domain: "example.com" }],
+          origins: [],
+        })
+      );
+      fs.writeFileSync(cookiesPath, NETSCAPE_COOKIES);
+
+      const credentials = loadCredentials("https://example.com", {
+        storageState: statePath,
+        cookieFile: cookiesPath,
+      });
+
+      expect(credentials.cookies.map((c) => c.name)).toEqual([
+        "sid",
+        "session",
+        "token",
+      ]);
+      expect(credentials.headers).toEqual({});
+      expect(credentials.basicAuth).toBeNull();
+
+      // Cleanup
+      fs.rmSync(tmpDir, { recursive: true });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectFindings,
+  compareWithBaseline,
+  countNewRegressions,
+  loadBaseline,
+} from "../src/baseline.js";
+import type { LinkCheckResult, ScanResult } from "../src/types.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function link(href: string, statusCode: number | null): LinkCheckResult {
+  return {
+    sourcePage: "https://example.com/",
+    referrers: [],
+    href,
+    resolvedUrl: href,
+    kind: "link",
+    statusCode,
+    isRedirect: false,
+    finalUrl: null,
+    redirectChain: [],
+    redirectStatuses: [],
+    error: statusCode === null ? "ECONNRESET" : null,
+    attempts: 1,
+  };
+}
+
+function makeScanResult(overrides: Partial<ScanResult> = {}): ScanResult {
+  return {
+    baseUrl: "https://example.com",
+    totalLinks: 10,
+    pagesCrawled: 5,
+    crawledPages: [],
+    brokenLinks: [],
+    soft404s: [],
+    redirectLinks: [],
+    redirectAudit: [],
+    seoFindings: [],
+    mixedContent: [],
+    pageErrors: [],
+    lintFindings: [],
+    duplicateContent: [],
+    serverErrors: [],
+    connectionErrors: [],
+    brokenFragments: [],
+    externalBrokenLinks: [],
+    robotsBlocked: [],
+    orphanPages: { unlinked: [], unlisted: [] },
+    timestamp: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("baseline", () => {
+  describe("collectFindings()", () => {
+    it("should flatten every finding section", () => {
+      const findings = collectFindings(
+        makeScanResult({
+          brokenLinks: [link("https://example.com/a", 404)],
+          serverErrors: [link("https://example.com/b", 500)],
+          connectionErrors: [link("https://example.com/c", null)],
+          brokenFragments: [
+            {
+              kind: "broken-fragment",
+              href: "https://example.com/d#intro",
+              targetUrl: "https://example.com/d",
+              fragment: "intro",
+              sourcePages: ["https://example.com/"],
+              availableAnchors: [],
+            },
+          ],
+        })
+      );
+
+      expect(findings.map((f) => [f.category, f.url, f.detail])).toEqual([
+        ["broken-link", "https://example.com/a", "404"],
+        ["server-error", "https://example.com/b", "500"],
+        ["connection-error", "https://example.com/c", "ECONNRESET"],
+        ["broken-fragment", "https://example.com/d#intro", "#intro"],
+      ]);
+    });
+
+    it("should tolerate reports that predate newer sections", () => {
+      const legacy = {
+        baseUrl: "https://example.com",
+        brokenLinks: [link("https://example.com/a", 404)],
+        serverErrors: [],
+        connectionErrors: [],
+      } as unknown as ScanResult;
+
+      expect(collectFindings(legacy)).toHaveLength(1);
+    });
+  });
+
+  describe("compareWithBaseline()", () => {
+    const baseline = makeScanResult({
+      brokenLinks: [
+        link("https://example.com/legacy-1", 404),
+        link("https://example.com/legacy-2", 404),
+      ],
+    });
+
+    it("should classify findings as new, still present or resolved", () => {
+      const current = makeScanResult({
+        brokenLinks: [
+          link("https://example.com/legacy-1", 404),
+          link("https://example.com/new-break", 404),
+        ],
+      });
+
+      const cmp = compareWithBaseline(current, baseline);
+
+      expect(cmp.baselineTimestamp).toBe("2025-01-01T00:00:00.000Z");
+      expect(cmp.newFindings.map((f) => f.url)).toEqual([
+        "https://example.com/new-break",
+      ]);
+      expect(cmp.stillPresent.map((f) => f.url)).toEqual([
+        "https://example.com/legacy-1",
+      ]);
+      expect(cmp.resolved.map((f) => f.url)).toEqual([
+        "https://example.com/legacy-2",
+      ]);
+      expect(countNewRegressions(cmp)).toBe(1);
+    });
+
+    it("should report no regressions when only known issues remain", () => {
+      const cmp = compareWithBaseline(baseline, baseline);
+      expect(cmp.newFindings).toEqual([]);
+      expect(countNewRegressions(cmp)).toBe(0);
+    });
+
+    it("should not count new non-failing findings as regressions", () => {
+      const current = makeScanResult({
+        brokenLinks: baseline.brokenLinks,
+        connectionErrors: [link("https://example.com/flaky", null)],
+      });
+
+      const cmp = compareWithBaseline(current, baseline);
+
+      expect(cmp.newFindings).toHaveLength(1);
+      expect(countNewRegressions(cmp)).toBe(0);
+    });
+  });
+
+  describe("loadBaseline()", () => {
+    it("should load a scan report and reject other JSON", () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "baseline-test-"));
+      const reportPath = path.join(tmpDir, "report.json");
+      const fixPath = path.join(tmpDir, "fixes.json");
+      fs.writeFileSync(reportPath, JSON.stringify(makeScanResult()));
+      fs.writeFileSync(fixPath, JSON.stringify({ fixes: [], redirects: [] }));
+
+      expect(loadBaseline(reportPath).baseUrl).toBe("https://example.com");
+      expect(() => loadBaseline(fixPath)).toThrow(/not a scan report/);
+
+      // Cleanup
+      fs.rmSync(tmpDir, { recursive: true });
+    });
+  });
+});
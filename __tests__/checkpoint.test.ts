@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import { createScanEvents } from "../src/events.js";
+import { scanSite } from "../src/link-scanner.js";
+import {
+  createCrawlState,
+  serializeCrawlState,
+  deserializeCrawlState,
+  saveCheckpoint,
+  loadCheckpoint,
+  type CrawlState,
+} from "../src/checkpoint.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function makeState(): CrawlState {
+  const state = createCrawlState("https://example.com");
+  state.toVisit.add("https://example.com/c").add("https://example.com/d");
+  state.visited.add("https://example.com");
+  state.visited.add("https://example.com/a");
+  state.renderedPages.add("https://example.com/a");
+  state.depths.set("https://example.com", 0);
+  state.depths.set("https://example.com/a", 1);
+  state.sitemapPages.add("https://example.com/a");
+  state.robotsBlocked.add("https://example.com/admin");
+  state.links.set("https://example.com/missing", {
+    kind: "link",
+    referrers: new Map([
+      [
+        "https://example.com",
+        {
+          page: "https://example.com",
+          text: "Missing",
+          selector: "nav > a:nth-of-type(1)",
+          occurrences: 2,
+        },
+      ],
+    ]),
+  });
+  state.insecureLinks.set("http://cdn.example.com/logo.png", {
+    kind: "image",
+    referrers: new Map([
+      [
+        "https://example.com",
+        { page: "https://example.com", text: "Logo", selector: "img", occurrences: 1 },
+      ],
+    ]),
+  });
+  state.fragmentRefs.set(
+    "https://example.com/a",
+    new Map([["intro", new Set(["https://example.com"])]])
+  );
+  state.pageAnchors.set("https://example.com/a", new Set(["overview"]));
+  state.soft404s.set("https://example.com/gone", "Near-empty page (0 characters of text)");
+  state.pageSeo.set("https://example.com/a", {
+    canonical: "https://example.com/a",
+    alternates: [{ hreflang: "de", url: "https://example.com/de/a" }],
+    robots: ["noindex"],
+    navLinks: ["https://example.com/"],
+  });
+  state.pageErrors.set("https://example.com/a", [
+    {
+      type: "http-error",
+      message: "500 Internal Server Error",
+      url: "https://example.com/api/cart",
+      statusCode: 500,
+      stackTrace: null,
+      errorClass: "unknown",
+      occurrences: 2,
+    },
+  ]);
+  state.pageFingerprints.set("https://example.com/a", {
+    hash: "9f2c".repeat(16),
+    simhash: "0123456789abcdef",
+    words: 240,
+  });
+  state.results.push({
+    sourcePage: "https://example.com",
+    referrers: [],
+    href: "https://example.com/missing",
+    resolvedUrl: "https://example.com/missing",
+    kind: "link",
+    statusCode: 404,
+    isRedirect: false,
+    finalUrl: null,
+    redirectChain: [],
+    redirectStatuses: [],
+    error: null,
+    attempts: 1,
+  });
+  return state;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("checkpoint", () => {
+  it("should start a new crawl with empty state", () => {
+    const state = createCrawlState("https://example.com");
+
+    expect(state.rootUrl).toBe("https://example.com");
+    expect(state.toVisit.size).toBe(0);
+    expect(state.visited.size).toBe(0);
+    expect(state.crawlComplete).toBe(false);
+  });
+
+  it("should round-trip the frontier, visited set, link map and results", () => {
+    const original = makeState();
+    const restored = deserializeCrawlState(serializeCrawlState(original));
+
+    expect(restored).toEqual(original);
+    expect(
+      restored.links.get("https://example.com/missing")!.referrers
+    ).toBeInstanceOf(Map);
+    expect(
+      restored.fragmentRefs.get("https://example.com/a")!.get("intro")
+    ).toBeInstanceOf(Set);
+  });
+
+  it("should reject checkpoints from an unknown version", () => {
+    const file = JSON.parse(serializeCrawlState(makeState()));
+    const json = JSON.stringify({ ...file, version: 99 });
+    expect(() => deserializeCrawlState(json)).toThrow(
+      /Unsupported checkpoint version/
+    );
+  });
+
+  it("should save to and load from a state file without leaving temp files", () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+    const statePath = path.join(tmpDir, "nested", "state.json");
+
+    saveCheckpoint(statePath, makeState());
+    saveCheckpoint(statePath, makeState());
+
+    expect(loadCheckpoint(statePath)).toEqual(makeState());
+    expect(fs.readdirSync(path.dirname(statePath))).toEqual(["state.json"]);
+
+    // Cleanup
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  it("should resume a scan from its checkpoint without recrawling visited pages", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+    const rootDir = path.join(tmpDir, "site");
+    fs.mkdirSync(rootDir);
+    fs.writeFileSync(
+      path.join(rootDir, "index.html"),
+      '<main><a href="/about">About</a><a href="/missing">Missing</a></main>'
+    );
+    fs.writeFileSync(
+      path.join(rootDir, "about.html"),
+      '<main><a href="/">Home</a><a href="/gone">Gone</a></main>'
+    );
+
+    // Interrupted after the home page: its links are known and queued
+    const root = "https://example.com/";
+    const interrupted = createCrawlState(root);
+    interrupted.visited.add(root);
+    interrupted.renderedPages.add(root);
+    interrupted.depths.set(root, 0);
+    for (const [href, text] of [
+      ["https://example.com/about", "About"],
+      ["https://example.com/missing", "Missing"],
+    ]) {
+      interrupted.toVisit.add(href!);
+      interrupted.depths.set(href!, 1);
+      interrupted.links.set(href!, {
+        kind: "link",
+        referrers: new Map([[root, { page: root, text: text!, selector: "a", occurrences: 1 }]]),
+      });
+    }
+    const statePath = path.join(tmpDir, "state.json");
+    saveCheckpoint(statePath, interrupted);
+
+    const events = createScanEvents();
+    const crawled: string[] = [];
+    events.on("page-crawled", ({ url }) => crawled.push(url));
+    const result = await scanSite("https://example.com", {
+      rootDir,
+      resumeFrom: statePath,
+      events,
+      detectSoft404s: false,
+      retries: 0,
+    });
+
+    expect(crawled).not.toContain(root);
+    expect(crawled.sort()).toEqual([
+      "https://example.com/about",
+      "https://example.com/gone",
+      "https://example.com/missing",
+    ]);
+    expect(result.crawledPages.find((p) => p.url === root)!.depth).toBe(0);
+    expect(result.crawledPages.find((p) => p.url.endsWith("/gone"))!.depth).toBe(2);
+    expect(result.brokenLinks.map((l) => l.href).sort()).toEqual([
+      "https://example.com/gone",
+      "https://example.com/missing",
+    ]);
+    expect(loadCheckpoint(statePath).crawlComplete).toBe(true);
+
+    // Cleanup
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+});
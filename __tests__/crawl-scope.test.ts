@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePageDepths,
+  createCrawlScope,
+  isUnderPathPrefix,
+  type ScopeOptions,
+} from "../src/crawl-scope.js";
+import type { DiscoveredLink } from "../src/checkpoint.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function scopeOptions(overrides: Partial<ScopeOptions> = {}): ScopeOptions {
+  return {
+    baseOrigin: "https://example.com",
+    internalOrigins: [],
+    includePatterns: [],
+    excludePatterns: [],
+    pathPrefix: null,
+    ...overrides,
+  };
+}
+
+/** A link map from [source page, target] pairs. */
+function linkMap(edges: Array<[string, string]>): Map<string, DiscoveredLink> {
+  const links = new Map<string, DiscoveredLink>();
+  for (const [page, href] of edges) {
+    if (!links.has(href)) {
+      links.set(href, { kind: "link", referrers: new Map() });
+    }
+    links.get(href)!.referrers.set(page, { page, text: "", selector: "a", occurrences: 1 });
+  }
+  return links;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("crawl-scope", () => {
+  describe("isInternal()", () => {
+    it("should only treat the base origin as internal by default", () => {
+      const scope = createCrawlScope(scopeOptions());
+
+      expect(scope.isInternal("https://example.com/a")).toBe(true);
+      expect(scope.isInternal("http://example.com/a")).toBe(false);
+      expect(scope.isInternal("https://docs.example.com/a")).toBe(false);
+      expect(scope.isInternal("not a url")).toBe(false);
+    });
+
+    it("should accept extra origins and host patterns", () => {
+      const scope = createCrawlScope(
+        scopeOptions({
+          internalOrigins: ["https://docs.example.com", "*.cdn.example.net", "blog.example.org"],
+        })
+      );
+
+      expect(scope.isInternal("https://docs.example.com/guide")).toBe(true);
+      expect(scope.isInternal("http://docs.example.com/guide")).toBe(false);
+      expect(scope.isInternal("https://eu.cdn.example.net/app.js")).toBe(true);
+      expect(scope.isInternal("https://cdn.example.net/app.js")).toBe(false);
+      expect(scope.isInternal("http://blog.example.org/post")).toBe(true);
+      expect(scope.isInternal("mailto:blog.example.org")).toBe(false);
+    });
+  });
+
+  describe("isInScope()", () => {
+    it("should apply include and exclude patterns", () => {
+      const scope = createCrawlScope(
+        scopeOptions({ includePatterns: ["/docs/", "/api/"], excludePatterns: ["/docs/old/"] })
+      );
+
+      expect(scope.isInScope("https://example.com/docs/intro")).toBe(true);
+      expect(scope.isInScope("https://example.com/api/v2")).toBe(true);
+      expect(scope.isInScope("https://example.com/blog/post")).toBe(false);
+      expect(scope.isInScope("https://example.com/docs/old/intro")).toBe(false);
+      expect(scope.isInScope("https://other.com/docs/intro")).toBe(false);
+    });
+
+    it("should limit the crawl to a path prefix", () => {
+      const scope = createCrawlScope(scopeOptions({ pathPrefix: "/docs/" }));
+
+      expect(scope.isInScope("https://example.com/docs")).toBe(true);
+      expect(scope.isInScope("https://example.com/docs/intro")).toBe(true);
+      expect(scope.isInScope("https://example.com/docs-archive")).toBe(false);
+      expect(scope.isInScope("https://example.com/")).toBe(false);
+    });
+
+    it("should reject invalid patterns up front", () => {
+      expect(() => createCrawlScope(scopeOptions({ includePatterns: ["("] }))).toThrow();
+    });
+  });
+
+  describe("isUnderPathPrefix()", () => {
+    it("should accept prefixes with or without a trailing slash", () => {
+      expect(isUnderPathPrefix("/docs/a", "/docs")).toBe(true);
+      expect(isUnderPathPrefix("/docs", "/docs")).toBe(true);
+      expect(isUnderPathPrefix("/docsx", "/docs")).toBe(false);
+    });
+  });
+
+  describe("computePageDepths()", () => {
+    it("should count the fewest clicks from the root", () => {
+      const root = "https://example.com/";
+      const a = "https://example.com/a";
+      const b = "https://example.com/b";
+      const c = "https://example.com/c";
+      const orphan = "https://example.com/from-sitemap";
+      const links = linkMap([
+        [root, a],
+        [a, b],
+        [b, c],
+        [root, c],
+        [orphan, b],
+      ]);
+
+      const pages = computePageDepths(root, new Set([root, a, b, c, orphan]), links);
+
+      expect(pages).toEqual([
+        { url: root, depth: 0 },
+        { url: a, depth: 1 },
+        { url: b, depth: 2 },
+        { url: c, depth: 1 },
+        { url: orphan, depth: null },
+      ]);
+    });
+
+    it("should only follow links through crawled pages", () => {
+      const root = "https://example.com/";
+      const links = linkMap([
+        [root, "https://example.com/skipped"],
+        ["https://example.com/skipped", "https://example.com/deep"],
+      ]);
+
+      const pages = computePageDepths(
+        root,
+        new Set([root, "https://example.com/deep"]),
+        links
+      );
+
+      expect(pages[1]).toEqual({ url: "https://example.com/deep", depth: null });
+    });
+
+    it("should ignore resource references", () => {
+      const root = "https://example.com/";
+      const links = linkMap([[root, "https://example.com/frame"]]);
+      links.get("https://example.com/frame")!.kind = "iframe";
+
+      const pages = computePageDepths(
+        root,
+        new Set([root, "https://example.com/frame"]),
+        links
+      );
+
+      expect(pages[1]!.depth).toBeNull();
+    });
+  });
+});
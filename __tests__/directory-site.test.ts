@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  contentTypeFor,
+  createDirectoryFetch,
+  resolveStaticFile,
+} from "../src/directory-site.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ORIGIN = "https://example.com";
+let rootDir: string;
+
+function writeFile(relative: string, content: string): void {
+  const filePath = path.join(rootDir, relative);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+beforeAll(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "directory-site-test-"));
+  writeFile("index.html", "<h1>Home</h1>");
+  writeFile("about.html", "<h1>About</h1>");
+  writeFile("docs/index.html", "<h1>Docs</h1>");
+  writeFile("docs/setup/index.html", "<h1>Setup</h1>");
+  writeFile("logo.png", "png");
+  writeFile("my page.html", "<h1>Spaces</h1>");
+});
+
+afterAll(() => {
+  fs.rmSync(rootDir, { recursive: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("directory-site", () => {
+  describe("resolveStaticFile()", () => {
+    it("should map URL paths to files like a static host", () => {
+      const resolve = (urlPath: string) => {
+        const file = resolveStaticFile(rootDir, urlPath);
+        return file && path.relative(rootDir, file).split(path.sep).join("/");
+      };
+
+      expect(resolve("/")).toBe("index.html");
+      expect(resolve("/about")).toBe("about.html");
+      expect(resolve("/about.html")).toBe("about.html");
+      expect(resolve("/docs")).toBe("docs/index.html");
+      expect(resolve("/docs/")).toBe("docs/index.html");
+      expect(resolve("/docs/setup/index.html")).toBe("docs/setup/index.html");
+      expect(resolve("/logo.png")).toBe("logo.png");
+      expect(resolve("/my%20page")).toBe("my page.html");
+    });
+
+    it("should not match missing files or paths outside the root", () => {
+      expect(resolveStaticFile(rootDir, "/missing")).toBeNull();
+      expect(resolveStaticFile(rootDir, "/about/")).toBeNull();
+      expect(resolveStaticFile(rootDir, "/../etc/passwd")).toBeNull();
+      expect(resolveStaticFile(rootDir, "/%2e%2e/%2e%2e/etc/passwd")).toBeNull();
+    });
+  });
+
+  describe("contentTypeFor()", () => {
+    it("should guess content types from the extension", () => {
+      expect(contentTypeFor("a/b.HTML")).toMatch(/^text\/html/);
+      expect(contentTypeFor("logo.png")).toBe("image/png");
+      expect(contentTypeFor("archive.xyz")).toBe("application/octet-stream");
+    });
+  });
+
+  describe("createDirectoryFetch()", () => {
+    it("should serve files for the site origin", async () => {
+      const fetchFromDir = createDirectoryFetch(rootDir, ORIGIN);
+
+      const page = await fetchFromDir(`${ORIGIN}/docs/`);
+      expect(page.status).toBe(200);
+      expect(page.headers.get("content-type")).toMatch(/^text\/html/);
+      expect(await page.text()).toBe("<h1>Docs</h1>");
+
+      const head = await fetchFromDir(`${ORIGIN}/logo.png`, { method: "HEAD" });
+      expect(head.status).toBe(200);
+      expect(await head.text()).toBe("");
+    });
+
+    it("should redirect a directory to its trailing-slash URL", async () => {
+      const fetchFromDir = createDirectoryFetch(rootDir, ORIGIN);
+
+      const docs = await fetchFromDir(`${ORIGIN}/docs?tab=1`, { redirect: "manual" });
+      expect(docs.status).toBe(301);
+      expect(docs.headers.get("location")).toBe(`${ORIGIN}/docs/?tab=1`);
+
+      expect((await fetchFromDir(`${ORIGIN}/about`)).status).toBe(200);
+      expect((await fetchFromDir(`${ORIGIN}/docs/index.html`)).status).toBe(200);
+    });
+
+    it("should answer 404, with the site's 404.html when it has one", async () => {
+      const fetchFromDir = createDirectoryFetch(rootDir, ORIGIN);
+      expect((await fetchFromDir(`${ORIGIN}/missing`)).status).toBe(404);
+
+      writeFile("404.html", "<h1>Not found</h1>");
+      const missing = await fetchFromDir(`${ORIGIN}/missing`);
+      expect(missing.status).toBe(404);
+      expect(await missing.text()).toBe("<h1>Not found</h1>");
+    });
+
+    it("should pass other origins to the fallback fetch", async () => {
+      const requested: string[] = [];
+      const fallback = (async (input: string | URL | Request) => {
+        requested.push(String(input));
+        return new Response(null, { status: 204 });
+      }) as typeof fetch;
+      const fetchFromDir = createDirectoryFetch(rootDir, ORIGIN, fallback);
+
+      const response = await fetchFromDir("https://cdn.other.com/lib.js");
+
+      expect(response.status).toBe(204);
+      expect(requested).toEqual(["https://cdn.other.com/lib.js"]);
+    });
+  });
+});
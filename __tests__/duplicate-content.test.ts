@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractMainText,
+  findDuplicateContent,
+  fingerprintPage,
+  simhashDistance,
+} from "../src/duplicate-content.js";
+import type { ContentFingerprint } from "../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ARTICLE =
+  "Our winter boots are made from waterproof leather with a warm wool lining. " +
+  "The rubber sole grips on ice and snow, and the padded collar keeps water out. " +
+  "Every pair is stitched by hand in our workshop and comes with a two year guarantee. " +
+  "Order before noon for delivery the next working day, with free returns within thirty days.";
+
+function page(main: string, nav = "Home Shoes Sale Contact"): string {
+  return `<!doctype html>
+<html>
+  <head><title>Boots</title><script>var tracking = 1;</script></head>
+  <body>
+    <nav>${nav}</nav>
+    <main><h1>Winter boots</h1><p>${main}</p></main>
+    <footer>© Example Shoes</footer>
+  </body>
+</html>`;
+}
+
+function fingerprint(html: string): ContentFingerprint {
+  const result = fingerprintPage(html);
+  if (!result) throw new Error("page too short to fingerprint");
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("duplicate-content", () => {
+  describe("extractMainText()", () => {
+    it("should read the main element only", () => {
+      const text = extractMainText(page("Warm boots."));
+
+      expect(text).toBe("Winter boots Warm boots.");
+    });
+
+    it("should drop navigation, header, footer and sidebars without a main element", () => {
+      const html =
+        "<body><header>Shop</header><nav>Menu</nav><div>Boots for winter.</div>" +
+        "<aside>Related</aside><footer>Legal</footer></body>";
+
+      expect(extractMainText(html)).toBe("Boots for winter.");
+    });
+  });
+
+  describe("fingerprintPage()", () => {
+    it("should ignore page chrome, case and punctuation", () => {
+      const a = fingerprint(page(ARTICLE));
+      const b = fingerprint(page(ARTICLE.toUpperCase().replace(/,/g, ""), "Other menu"));
+
+      expect(b.hash).toBe(a.hash);
+      expect(a.simhash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should keep similar content close and different content far apart", () => {
+      const original = fingerprint(page(ARTICLE));
+      const edited = fingerprint(page(ARTICLE.replace("two year", "three year")));
+      const other = fingerprint(
+        page(
+          "Our summer sandals use breathable cork footbeds and adjustable straps. " +
+            "They dry quickly after a swim and pack flat for travel, weighing only two hundred grams each. " +
+            "Choose from six colours and half sizes from thirty six to forty six."
+        )
+      );
+
+      expect(edited.hash).not.toBe(original.hash);
+      expect(simhashDistance(original, edited)).toBeLessThan(simhashDistance(original, other));
+      expect(simhashDistance(original, other)).toBeGreaterThan(10);
+    });
+
+    it("should not fingerprint pages with too little content", () => {
+      expect(fingerprintPage(page("Loading..."))).toBeNull();
+    });
+  });
+
+  describe("findDuplicateContent()", () => {
+    const boots = fingerprint(page(ARTICLE));
+    const sandals: ContentFingerprint = { hash: "1".repeat(64), simhash: "0".repeat(16), words: 50 };
+
+    it("should group pages with identical content", () => {
+      const groups = findDuplicateContent(
+        new Map([
+          ["https://example.com/shoes/boots", boots],
+          ["https://example.com/sandals", sandals],
+          ["https://example.com/sale/boots", boots],
+        ]),
+        () => null
+      );
+
+      expect(groups).toEqual([
+        {
+          type: "identical",
+          severity: "warning",
+          pages: ["https://example.com/shoes/boots", "https://example.com/sale/boots"],
+          similarity: 1,
+        },
+      ]);
+    });
+
+    it("should group near-duplicates within the distance", () => {
+      const pages = new Map([
+        ["https://example.com/a", { hash: "a", simhash: "00000000000000f0", words: 50 }],
+        ["https://example.com/b", { hash: "b", simhash: "00000000000000f1", words: 50 }],
+        ["https://example.com/c", { hash: "c", simhash: "ffffffff00000000", words: 50 }],
+      ]);
+
+      const groups = findDuplicateContent(pages, () => null, 3);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]!.type).toBe("near-duplicate");
+      expect(groups[0]!.pages).toEqual(["https://example.com/a", "https://example.com/b"]);
+      expect(groups[0]!.similarity).toBeCloseTo(63 / 64);
+      expect(findDuplicateContent(pages, () => null, 0)).toEqual([]);
+    });
+
+    it("should leave out pages whose canonical names another URL", () => {
+      const pages = new Map([
+        ["https://example.com/shoes/boots", boots],
+        ["https://example.com/sale/boots", boots],
+      ]);
+      const canonicals: Record<string, string> = {
+        "https://example.com/shoes/boots": "https://example.com/shoes/boots/",
+        "https://example.com/sale/boots": "https://example.com/shoes/boots",
+      };
+
+      const groups = findDuplicateContent(
+        pages,
+        (url) => canonicals[url] ?? null,
+        3,
+        (url) => url.replace(/\/$/, "")
+      );
+
+      expect(groups).toEqual([]);
+    });
+  });
+});
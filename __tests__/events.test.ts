@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createScanEvents, type ScanEventMap } from "../src/events.js";
+import { scanSite } from "../src/link-scanner.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+let rootDir: string;
+
+function writeFile(relative: string, content: string): void {
+  const filePath = path.join(rootDir, relative);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+beforeAll(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "events-test-"));
+  writeFile(
+    "index.html",
+    '<main><h1>Home</h1><a href="/about">About</a><a href="/missing">Missing</a></main>'
+  );
+  writeFile("about.html", '<main><h1>About us</h1><a href="/">Home</a></main>');
+});
+
+afterAll(() => {
+  fs.rmSync(rootDir, { recursive: true });
+});
+
+/** An event as received, discriminated by its name. */
+type RecordedEvent = {
+  [K in keyof ScanEventMap]: { name: K; payload: ScanEventMap[K][0] };
+}[keyof ScanEventMap];
+
+/** Scan the fixture site, recording every event in order. */
+async function scanWithEvents(): Promise<RecordedEvent[]> {
+  const events = createScanEvents();
+  const seen: Array<{ name: keyof ScanEventMap; payload: unknown }> = [];
+  const names: Array<keyof ScanEventMap> = [
+    "scan-started",
+    "page-started",
+    "page-crawled",
+    "page-failed",
+    "checks-started",
+    "link-checked",
+    "broken-link-found",
+    "scan-complete",
+  ];
+  for (const name of names) {
+    events.on(name, (payload: unknown) => seen.push({ name, payload }));
+  }
+
+  await scanSite("https://example.com", {
+    rootDir,
+    events,
+    useSitemap: false,
+    detectSoft404s: false,
+    retries: 0,
+  });
+  return seen as RecordedEvent[];
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("events", () => {
+  it("should report each phase of a scan in order", async () => {
+    const seen = await scanWithEvents();
+    const order = seen.map((e) => e.name).filter((name, i, all) => all[i - 1] !== name);
+
+    expect(order[0]).toBe("scan-started");
+    expect(order.at(-1)).toBe("scan-complete");
+    expect(order.indexOf("checks-started")).toBeGreaterThan(order.lastIndexOf("page-crawled"));
+  });
+
+  it("should report crawled pages and checked links", async () => {
+    const seen = await scanWithEvents();
+
+    const crawled = seen.flatMap((e) => (e.name === "page-crawled" ? [e.payload.url] : []));
+    expect(crawled).toContain("https://example.com/");
+    expect(crawled).toContain("https://example.com/about");
+
+    const checks = seen.flatMap((e) => (e.name === "link-checked" ? [e.payload] : []));
+    expect(checks.map((c) => c.checked).sort()).toEqual(
+      Array.from({ length: checks.length }, (_, i) => i + 1)
+    );
+    expect(checks.every((c) => c.total === checks.length && c.phase === "links")).toBe(true);
+  });
+
+  it("should stream broken links as they are found", async () => {
+    const seen = await scanWithEvents();
+
+    const broken = seen.flatMap((e) => (e.name === "broken-link-found" ? [e.payload] : []));
+    expect(broken).toHaveLength(1);
+    expect(broken[0]!.result.href).toBe("https://example.com/missing");
+    expect(broken[0]!.external).toBe(false);
+
+    const complete = seen.find((e) => e.name === "scan-complete");
+    expect(complete?.name === "scan-complete" && complete.payload.result.brokenLinks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { trimSnippet } from "../src/evidence.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const LINK = '<a href="/old-pricing">Pricing</a>';
+
+function navWith(before: number, after: number): string {
+  return `<nav>${"<span>x</span>".repeat(before)}${LINK}${"<span>y</span>".repeat(after)}</nav>`;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("evidence", () => {
+  describe("trimSnippet()", () => {
+    it("should keep short context whole, with whitespace collapsed", () => {
+      expect(trimSnippet(`<p>\n  See   ${LINK}\n</p>`, LINK)).toBe(`<p> See ${LINK} </p>`);
+    });
+
+    it("should center long context on the element", () => {
+      const snippet = trimSnippet(navWith(50, 50), LINK, 100);
+
+      expect(snippet).toContain(LINK);
+      expect(snippet.startsWith("…")).toBe(true);
+      expect(snippet.endsWith("…")).toBe(true);
+      expect(snippet).toHaveLength(102);
+    });
+
+    it("should not mark a cut at an edge the window reaches", () => {
+      const snippet = trimSnippet(navWith(0, 50), LINK, 100);
+
+      expect(snippet.startsWith(`<nav>${LINK}`)).toBe(true);
+      expect(snippet.endsWith("…")).toBe(true);
+    });
+
+    it("should cut an element longer than the limit", () => {
+      const long = `<a href="/x">${"word ".repeat(100)}</a>`;
+
+      expect(trimSnippet(`<div>${long}</div>`, long, 50)).toBe(`${long.slice(0, 50)}…`);
+    });
+  });
+});
@@ -4,7 +4,12 @@ import {
   fixesToRedirects,
   applyFixesToContent,
 } from "../src/link-fixer.js";
-import type { LinkCheckResult, LinkFix } from "../src/types.js";
+import type {
+  BrokenFragment,
+  ContentFingerprint,
+  LinkCheckResult,
+  LinkFix,
+} from "../src/types.js";
 
 // ---------------------------------------------------------------------------
 // Helper to build a LinkCheckResult
@@ -13,13 +18,17 @@ import type { LinkCheckResult, LinkFix } from "../src/types.js";
 function brokenLink(overrides: Partial<LinkCheckResult> = {}): LinkCheckResult {
   return {
     sourcePage: "https://example.com/page",
+    referrers: [],
     href: "https://example.com/old-page",
     resolvedUrl: "https://example.com/old-page",
+    kind: "link",
     statusCode: 404,
     isRedirect: false,
     finalUrl: null,
     redirectChain: [],
+    redirectStatuses: [],
     error: null,
+    attempts: 1,
     ...overrides,
   };
 }
@@ -29,13 +38,31 @@ function redirectLink(
 ): LinkCheckResult {
   return {
     sourcePage: "https://example.com/page",
+    referrers: [],
     href: "https://example.com/moved",
     resolvedUrl: "https://example.com/moved",
+    kind: "link",
     statusCode: 301,
     isRedirect: true,
     finalUrl: "https://example.com/new-location",
     redirectChain: ["https://example.com/moved"],
+    redirectStatuses: [301],
     error: null,
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+function brokenFragment(
+  overrides: Partial<BrokenFragment> = {}
+): BrokenFragment {
+  return {
+    kind: "broken-fragment",
+    href: "https://example.com/docs/install#configuring-proxy",
+    targetUrl: "https://example.com/docs/install",
+    fragment: "configuring-proxy",
+    sourcePages: ["https://example.com/docs"],
+    availableAnchors: ["requirements", "configure-a-proxy", "troubleshooting"],
     ...overrides,
   };
 }
@@ -170,6 +197,37 @@ describe("link-fixer", () => {
       expect(fixes.length).toBe(2);
     });
 
+    it("should use every referrer of a broken link as a source page", () => {
+      const referrer = (page: string) => ({
+        page,
+        text: "Pricing",
+        selector: "nav > a:nth-of-type(2)",
+        occurrences: 1,
+      });
+      const broken = [
+        brokenLink({
+          href: "https://example.com/pricng",
+          sourcePage: "https://example.com/",
+          referrers: [
+            referrer("https://example.com/"),
+            referrer("https://example.com/about"),
+            referrer("https://example.com/blog"),
+          ],
+        }),
+      ];
+
+      const fixes = computeFixes(broken, ["https://example.com/pricing"], [], {
+        minConfidence: 0.3,
+      });
+
+      expect(fixes.length).toBe(1);
+      expect(fixes[0]!.sourcePages).toEqual([
+        "https://example.com/",
+        "https://example.com/about",
+        "https://example.com/blog",
+      ]);
+    });
+
     it("should deduplicate broken links by href and aggregate source pages", () => {
       const broken = [
         brokenLink({
@@ -231,6 +289,148 @@ describe("link-fixer", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Moved content matching
+  // -----------------------------------------------------------------------
+  describe("moved content matching", () => {
+    const pricing: ContentFingerprint = {
+      hash: "a".repeat(64),
+      simhash: "f0f0f0f0f0f0f0f0",
+      words: 300,
+    };
+
+    it("should suggest the page now serving a broken link's old content", () => {
+      const fixes = computeFixes(
+        [brokenLink({ href: "https://example.com/old-page" })],
+        ["https://example.com/old-pages"],
+        [],
+        {
+          previousPages: [
+            { url: "https://example.com/old-page", depth: 1, fingerprint: pricing },
+          ],
+          currentPages: [
+            { url: "https://example.com/old-pages", depth: 1 },
+            {
+              url: "https://example.com/plans/pricing",
+              depth: 2,
+              // A small edit since the page moved
+              fingerprint: { ...pricing, hash: "b".repeat(64), simhash: "f0f0f0f0f0f0f0f1" },
+            },
+          ],
+        }
+      );
+
+      expect(fixes.length).toBe(1);
+      expect(fixes[0]!.method).toBe("content-match");
+      expect(fixes[0]!.suggestedHref).toBe("https://example.com/plans/pricing");
+      expect(fixes[0]!.confidence).toBeCloseTo(0.85);
+    });
+
+    it("should match moved content within the configured near-duplicate distance", () => {
+      const options = {
+        previousPages: [
+          { url: "https://example.com/old-page", depth: 1, fingerprint: pricing },
+        ],
+        currentPages: [
+          {
+            url: "https://example.com/plans/pricing",
+            depth: 2,
+            // 4 bits apart, one more than the default distance allows
+            fingerprint: { ...pricing, hash: "b".repeat(64), simhash: "f0f0f0f0f0f0f0ff" },
+          },
+        ],
+      };
+      const broken = [brokenLink({ href: "https://example.com/old-page" })];
+
+      expect(computeFixes(broken, [], [], options)).toEqual([]);
+
+      const fixes = computeFixes(broken, [], [], { ...options, nearDuplicateDistance: 4 });
+      expect(fixes.map((fix) => [fix.method, fix.suggestedHref])).toEqual([
+        ["content-match", "https://example.com/plans/pricing"],
+      ]);
+    });
+
+    it("should fall back to path similarity when the content is gone", () => {
+      const fixes = computeFixes(
+        [brokenLink({ href: "https://example.com/docs/getting-started" })],
+        ["https://example.com/docs/getting-startd"],
+        [],
+        {
+          minConfidence: 0.3,
+          previousPages: [
+            {
+              url: "https://example.com/docs/getting-started",
+              depth: 1,
+              fingerprint: pricing,
+            },
+          ],
+          currentPages: [
+            {
+              url: "https://example.com/blog",
+              depth: 1,
+              fingerprint: { ...pricing, hash: "c".repeat(64), simhash: "0f0f0f0f0f0f0f0f" },
+            },
+          ],
+        }
+      );
+
+      expect(fixes.length).toBe(1);
+      expect(fixes[0]!.method).not.toBe("content-match");
+      expect(fixes[0]!.suggestedHref).toBe("https://example.com/docs/getting-startd");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Broken fragment matching
+  // -----------------------------------------------------------------------
+  describe("broken fragment matching", () => {
+    it("should suggest the closest existing anchor on the target page", () => {
+      const fixes = computeFixes([], [], [], { brokenFragments: [brokenFragment()] });
+
+      expect(fixes.length).toBe(1);
+      expect(fixes[0]!.method).toBe("closest-anchor");
+      expect(fixes[0]!.originalHref).toBe(
+        "https://example.com/docs/install#configuring-proxy"
+      );
+      expect(fixes[0]!.suggestedHref).toBe(
+        "https://example.com/docs/install#configure-a-proxy"
+      );
+      expect(fixes[0]!.sourcePages).toEqual(["https://example.com/docs"]);
+    });
+
+    it("should suggest an anchor that differs by an inflection", () => {
+      const fixes = computeFixes([], [], [], {
+        minConfidence: 0.5,
+        brokenFragments: [
+          brokenFragment({
+            href: "https://example.com/about#team",
+            targetUrl: "https://example.com/about",
+            fragment: "team",
+            availableAnchors: ["history", "teams", "contact"],
+          }),
+        ],
+      });
+
+      expect(fixes.length).toBe(1);
+      expect(fixes[0]!.suggestedHref).toBe("https://example.com/about#teams");
+    });
+
+    it("should not suggest an anchor when none is similar enough", () => {
+      const fixes = computeFixes([], [], [], {
+        minConfidence: 0.5,
+        brokenFragments: [brokenFragment({ availableAnchors: ["changelog", "license"] })],
+      });
+      expect(fixes).toEqual([]);
+    });
+
+    it("should not suggest anything when the target page has no anchors", () => {
+      const fixes = computeFixes([], [], [], {
+        brokenFragments: [brokenFragment({ availableAnchors: [] })],
+      });
+      expect(fixes).toEqual([]);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // fixesToRedirects() conversion
   // -----------------------------------------------------------------------
@@ -281,6 +481,34 @@ describe("link-fixer", () => {
     it("should return empty array for empty fixes", () => {
       expect(fixesToRedirects([])).toEqual([]);
     });
+
+    it("should skip anchor fixes, which cannot be expressed as redirects", () => {
+      const fixes: LinkFix[] = [
+        {
+          originalHref: "https://example.com/docs#old-heading",
+          suggestedHref: "https://example.com/docs#new-heading",
+          confidence: 0.9,
+          method: "closest-anchor",
+          sourcePages: [],
+        },
+      ];
+
+      expect(fixesToRedirects(fixes)).toEqual([]);
+    });
+
+    it("should skip HTTPS upgrades, which keep the same path", () => {
+      const fixes: LinkFix[] = [
+        {
+          originalHref: "http://example.com/logo.png",
+          suggestedHref: "https://example.com/logo.png",
+          confidence: 1,
+          method: "https-upgrade",
+          sourcePages: [],
+        },
+      ];
+
+      expect(fixesToRedirects(fixes)).toEqual([]);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -362,6 +590,82 @@ describe("link-fixer", () => {
       expect(result.appliedCount).toBeGreaterThanOrEqual(1);
     });
 
+    it("should replace relative hrefs that include a fragment", () => {
+      const html = `<a href="/docs/install#configuring-proxy">Proxy</a>`;
+      const fixes: LinkFix[] = [
+        {
+          originalHref: "https://example.com/docs/install#configuring-proxy",
+          suggestedHref: "https://example.com/docs/install#configure-a-proxy",
+          confidence: 0.8,
+          method: "closest-anchor",
+          sourcePages: [],
+        },
+      ];
+
+      const result = applyFixesToContent(html, fixes);
+
+      expect(result.content).toBe(
+        `<a href="/docs/install#configure-a-proxy">Proxy</a>`
+      );
+      expect(result.appliedCount).toBe(1);
+    });
+
+    it("should replace in-page fragment links on the fix's source page", () => {
+      const html = [
+        `<a href="#configuring-proxy">Proxy</a>`,
+        `<a href="/docs/install#configuring-proxy">Proxy</a>`,
+      ].join("\n");
+      const fixes: LinkFix[] = [
+        {
+          originalHref: "https://example.com/docs/install#configuring-proxy",
+          suggestedHref: "https://example.com/docs/install#configure-a-proxy",
+          confidence: 0.8,
+          method: "closest-anchor",
+          sourcePages: ["https://example.com/docs", "https://example.com/docs/install"],
+        },
+      ];
+
+      const onPage = applyFixesToContent(html, fixes, 0.7, "https://example.com/docs/install");
+      expect(onPage.content).toBe(
+        [
+          `<a href="#configure-a-proxy">Proxy</a>`,
+          `<a href="/docs/install#configure-a-proxy">Proxy</a>`,
+        ].join("\n")
+      );
+
+      // A bare fragment on another page points at that page's own anchors
+      const elsewhere = applyFixesToContent(html, fixes, 0.7, "https://example.com/docs");
+      expect(elsewhere.content).toContain(`<a href="#configuring-proxy">`);
+    });
+
+    it("should upgrade insecure URLs in any attribute, srcset or CSS url()", () => {
+      const html = [
+        `<img src="http://cdn.example.com/a.png" srcset="http://cdn.example.com/a.png 1x, /b.png 2x">`,
+        `<div style="background: url(http://cdn.example.com/a.png)"></div>`,
+        `<img src="http://cdn.example.com/a.png.webp">`,
+      ].join("\n");
+      const fixes: LinkFix[] = [
+        {
+          originalHref: "http://cdn.example.com/a.png",
+          suggestedHref: "https://cdn.example.com/a.png",
+          confidence: 1,
+          method: "https-upgrade",
+          sourcePages: [],
+        },
+      ];
+
+      const result = applyFixesToContent(html, fixes);
+
+      expect(result.content).toBe(
+        [
+          `<img src="https://cdn.example.com/a.png" srcset="https://cdn.example.com/a.png 1x, /b.png 2x">`,
+          `<div style="background: url(https://cdn.example.com/a.png)"></div>`,
+          `<img src="http://cdn.example.com/a.png.webp">`,
+        ].join("\n")
+      );
+      expect(result.appliedCount).toBe(1);
+    });
+
     it("should return unchanged content when no fixes apply", () => {
       const html = `<a href="/some-page">Link</a>`;
       const result = applyFixesToContent(html, []);
@@ -0,0 +1,338 @@
+import { describe, it, expect } from "vitest";
+import {
+  LINK_LINT_RULES,
+  lintLinks,
+  parseLintRule,
+  resolveLintRules,
+  type LintContext,
+  type LinkLintRule,
+  type PageLink,
+} from "../src/link-lint.js";
+import type { TargetCheck } from "../src/seo-checks.js";
+import { parseStaticPage } from "../src/static-renderer.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAGE_URL = "https://example.com/docs/";
+
+const HTML = `<!doctype html>
+<html>
+  <body>
+    <main>
+      <a href="/docs/setup">Setup guide</a>
+      <a href="https://example.com/pricing" target="_blank">Pricing</a>
+      <a href="https://partner.example.org/" target="_blank" rel="noopener NoFollow">Partner</a>
+      <a href="/"><img src="/logo.png" alt="Example home"></a>
+      <a href="javascript:void(0)">  </a>
+      <a href="">Read more &raquo;</a>
+    </main>
+  </body>
+</html>`;
+
+function link(overrides: Partial<PageLink> = {}): PageLink {
+  return {
+    href: "/docs/setup",
+    url: "https://example.com/docs/setup",
+    text: "Setup guide",
+    selector: "main > a:nth-of-type(1)",
+    target: null,
+    rel: [],
+    ...overrides,
+  };
+}
+
+function context(checks: Record<string, TargetCheck> = {}): LintContext {
+  return {
+    isInternal: (url) => new URL(url).origin === "https://example.com",
+    normalize: (url) => url.replace(/#.*$/, ""),
+    checks: (url) => checks[url],
+  };
+}
+
+/** Rule ids that flag `pageLink` on the docs page. */
+function rulesFor(pageLink: PageLink, ctx: LintContext = context()): string[] {
+  return lintLinks(new Map([[PAGE_URL, [pageLink]]]), LINK_LINT_RULES, ctx).map(
+    (f) => f.rule
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("link-lint", () => {
+  describe("extractPageLinks()", () => {
+    it("should read each link's href, text, target and rel", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: true,
+        includeFingerprint: false,
+      });
+
+      expect(page.links!.map(({ selector: _, ...rest }) => rest)).toEqual([
+        {
+          href: "/docs/setup",
+          url: "https://example.com/docs/setup",
+          text: "Setup guide",
+          target: null,
+          rel: [],
+        },
+        {
+          href: "https://example.com/pricing",
+          url: "https://example.com/pricing",
+          text: "Pricing",
+          target: "_blank",
+          rel: [],
+        },
+        {
+          href: "https://partner.example.org/",
+          url: "https://partner.example.org/",
+          text: "Partner",
+          target: "_blank",
+          rel: ["noopener", "nofollow"],
+        },
+        {
+          href: "/",
+          url: "https://example.com/",
+          text: "Example home",
+          target: null,
+          rel: [],
+        },
+        {
+          href: "javascript:void(0)",
+          url: null,
+          text: "",
+          target: null,
+          rel: [],
+        },
+        {
+          href: "",
+          url: "https://example.com/docs/",
+          text: "Read more »",
+          target: null,
+          rel: [],
+        },
+      ]);
+    });
+
+    it("should name image links by their images wherever they sit in the link", async () => {
+      const page = await parseStaticPage(
+        `<header>
+          <a href="/"><img id="logo" src="/logo.png" alt="Example home"></a>
+          <a href="/blog"><span id="icon"><img src="/rss.png" alt="Blog"></span></a>
+        </header>`,
+        PAGE_URL,
+        200,
+        {
+          includeAnchors: false,
+          includeResources: false,
+          includeText: false,
+          includeSeo: false,
+          includeLinks: true,
+          includeFingerprint: false,
+        }
+      );
+
+      expect(page.links!.map((pageLink) => pageLink.text)).toEqual(["Example home", "Blog"]);
+    });
+
+    it("should be skipped unless requested", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      expect(page.links).toBeNull();
+    });
+  });
+
+  describe("built-in rules", () => {
+    it("should pass a descriptive relative link", () => {
+      expect(rulesFor(link())).toEqual([]);
+    });
+
+    it("should flag links without text and with generic text", () => {
+      expect(rulesFor(link({ text: "" }))).toEqual(["empty-text"]);
+      expect(rulesFor(link({ text: "→" }))).toEqual(["empty-text"]);
+      expect(rulesFor(link({ text: "Click here!" }))).toEqual(["generic-text"]);
+      expect(rulesFor(link({ text: "Read more about setup" }))).toEqual([]);
+    });
+
+    it("should flag target=_blank without noopener or noreferrer", () => {
+      expect(rulesFor(link({ target: "_BLANK" }))).toEqual(["unsafe-target-blank"]);
+      expect(rulesFor(link({ target: "_blank", rel: ["noreferrer"] }))).toEqual([]);
+      expect(rulesFor(link({ target: "help" }))).toEqual([]);
+    });
+
+    it("should flag nofollow on internal links only", () => {
+      expect(rulesFor(link({ rel: ["nofollow"] }))).toEqual(["internal-nofollow"]);
+      expect(
+        rulesFor(
+          link({
+            href: "https://ads.example.net/",
+            url: "https://ads.example.net/",
+            rel: ["nofollow"],
+          })
+        )
+      ).toEqual([]);
+    });
+
+    it("should flag javascript: and empty hrefs", () => {
+      expect(rulesFor(link({ href: "JavaScript:open()", url: null }))).toEqual([
+        "javascript-href",
+      ]);
+      expect(rulesFor(link({ href: " ", url: PAGE_URL }))).toEqual(["empty-href"]);
+      expect(rulesFor(link({ href: "#", url: PAGE_URL }))).toEqual(["empty-href"]);
+      expect(rulesFor(link({ href: "#install", url: `${PAGE_URL}#install` }))).toEqual([]);
+    });
+
+    it("should flag links to internal URLs that redirect", () => {
+      const ctx = context({
+        "https://example.com/docs/setup": {
+          statusCode: 200,
+          finalUrl: "https://example.com/guides/setup",
+          redirectChain: ["https://example.com/docs/setup"],
+          error: null,
+        },
+      });
+
+      const findings = lintLinks(
+        new Map([[PAGE_URL, [link({ href: "/docs/setup#linux" })]]]),
+        LINK_LINT_RULES,
+        ctx
+      );
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]!.rule).toBe("internal-redirect");
+      expect(findings[0]!.message).toContain("redirects to https://example.com/guides/setup");
+    });
+
+    it("should not flag links written as the URL their normalized form redirects to", () => {
+      const ctx: LintContext = {
+        ...context({
+          "https://example.com/guides": {
+            statusCode: 200,
+            finalUrl: "https://example.com/guides/",
+            redirectChain: ["https://example.com/guides"],
+            error: null,
+          },
+        }),
+        normalize: (url) => url.replace(/#.*$/, "").replace(/\/$/, ""),
+      };
+
+      expect(
+        rulesFor(link({ href: "/guides/#intro", url: "https://example.com/guides/#intro" }), ctx)
+      ).toEqual([]);
+      expect(
+        rulesFor(link({ href: "/guides", url: "https://example.com/guides" }), ctx)
+      ).toEqual(["internal-redirect"]);
+    });
+
+    it("should flag absolute links to the page's own origin", () => {
+      const findings = lintLinks(
+        new Map([
+          [
+            PAGE_URL,
+            [
+              link({
+                href: "https://example.com/pricing?plan=pro",
+                url: "https://example.com/pricing?plan=pro",
+              }),
+              link({ href: "//example.com/about", url: "https://example.com/about" }),
+              link({ href: "https://docs.example.org/", url: "https://docs.example.org/" }),
+            ],
+          ],
+        ]),
+        LINK_LINT_RULES,
+        context()
+      );
+
+      expect(findings.map((f) => [f.rule, f.href])).toEqual([
+        ["absolute-internal", "https://example.com/pricing?plan=pro"],
+        ["absolute-internal", "//example.com/about"],
+      ]);
+      expect(findings[0]!.severity).toBe("info");
+    });
+  });
+
+  describe("lintLinks()", () => {
+    it("should group a link's findings across pages", () => {
+      const generic = link({ text: "here" });
+      const findings = lintLinks(
+        new Map([
+          ["https://example.com/a", [generic, generic]],
+          ["https://example.com/b", [generic]],
+        ]),
+        LINK_LINT_RULES,
+        context()
+      );
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]!.sourcePage).toBe("https://example.com/a");
+      expect(findings[0]!.referrers.map((r) => [r.page, r.occurrences])).toEqual([
+        ["https://example.com/a", 2],
+        ["https://example.com/b", 1],
+      ]);
+    });
+  });
+
+  describe("resolveLintRules()", () => {
+    it("should drop rules that are off and apply severity overrides", () => {
+      const rules = resolveLintRules({ "generic-text": "off", "absolute-internal": "error" });
+
+      expect(rules.map((r) => r.id)).not.toContain("generic-text");
+      expect(rules.find((r) => r.id === "absolute-internal")!.severity).toBe("error");
+      expect(rules).toHaveLength(LINK_LINT_RULES.length - 1);
+    });
+
+    it("should run custom rules alongside the built-in ones", () => {
+      const noTracking: LinkLintRule = {
+        id: "no-tracking-params",
+        severity: "warning",
+        description: "utm_ parameters on internal links",
+        check: (l) => (l.href.includes("utm_") ? "Internal link carries utm_ parameters" : null),
+      };
+      const rules = resolveLintRules({ "no-tracking-params": "info" }, [noTracking]);
+
+      const findings = lintLinks(
+        new Map([[PAGE_URL, [link({ href: "/docs/setup?utm_source=nav" })]]]),
+        rules,
+        context()
+      );
+
+      expect(findings.map((f) => [f.rule, f.severity])).toEqual([
+        ["no-tracking-params", "info"],
+      ]);
+    });
+
+    it("should reject configuration for unknown rules", () => {
+      expect(() => resolveLintRules({ "generic-txt": "off" })).toThrow(
+        /Unknown link lint rule: generic-txt/
+      );
+    });
+  });
+
+  describe("parseLintRule()", () => {
+    it("should parse a rule and severity", () => {
+      expect(parseLintRule("generic-text=off")).toEqual(["generic-text", "off"]);
+      expect(parseLintRule(" absolute-internal = warning ")).toEqual([
+        "absolute-internal",
+        "warning",
+      ]);
+    });
+
+    it("should reject unknown severities", () => {
+      expect(() => parseLintRule("generic-text=loud")).toThrow(/Invalid lint rule setting/);
+      expect(() => parseLintRule("generic-text")).toThrow(/Invalid lint rule setting/);
+    });
+  });
+});
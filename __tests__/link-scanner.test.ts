@@ -0,0 +1,490 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createScanEvents } from "../src/events.js";
+import { scanSite, type ScanOptions } from "../src/link-scanner.js";
+import type { LinkCheckResult } from "../src/types.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const CDN = "https://cdn.other.com";
+
+const tmpDirs: string[] = [];
+
+/** Write a site to a new temporary directory and return its path. */
+function makeSite(files: Record<string, string>): string {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "link-scanner-test-"));
+  tmpDirs.push(rootDir);
+  for (const [relative, content] of Object.entries(files)) {
+    const filePath = path.join(rootDir, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  return rootDir;
+}
+
+/** A page linking to each of the given hrefs. */
+function pageLinking(...hrefs: string[]): string {
+  return `<main>${hrefs.map((href) => `<a href="${href}">${href}</a>`).join("")}</main>`;
+}
+
+let cdnSite: string;
+
+beforeAll(() => {
+  cdnSite = makeSite({
+    "index.html": pageLinking(
+      ...["head-405", "head-501", "busy", "down"].map((name) => `${CDN}/${name}`)
+    ),
+  });
+});
+
+afterAll(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+/** A request the fake CDN received. */
+interface CdnRequest {
+  path: string;
+  method: string;
+  at: number;
+}
+
+/**
+ * A fake CDN: /head-405 and /head-501 reject HEAD, /busy answers 429 with
+ * Retry-After: 1 once, and /down always answers 503.
+ */
+function createCdnFetch(requests: CdnRequest[]): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const { pathname } = new URL(String(input));
+    const method = init?.method ?? "GET";
+    requests.push({ path: pathname, method, at: Date.now() });
+
+    if (pathname === "/head-405" && method === "HEAD") {
+      return new Response(null, { status: 405 });
+    }
+    if (pathname === "/head-501" && method === "HEAD") {
+      return new Response(null, { status: 501 });
+    }
+    const isFirstBusy = requests.filter((r) => r.path === "/busy").length === 1;
+    if (pathname === "/busy" && isFirstBusy) {
+      return new Response(null, { status: 429, headers: { "Retry-After": "1" } });
+    }
+    if (pathname === "/down") {
+      return new Response(null, { status: 503 });
+    }
+    return new Response(null, { status: 200 });
+  }) as typeof fetch;
+}
+
+/** Scan the fixture site, returning every external check by path. */
+async function scanExternal(
+  options: ScanOptions = {}
+): Promise<{ checks: Map<string, LinkCheckResult>; requests: CdnRequest[] }> {
+  const requests: CdnRequest[] = [];
+  const checks = new Map<string, LinkCheckResult>();
+  const events = createScanEvents();
+  events.on("link-checked", ({ phase, result }) => {
+    if (phase === "external") checks.set(new URL(result.href).pathname, result);
+  });
+
+  await scanSite("https://example.com", {
+    rootDir: cdnSite,
+    events,
+    fetch: createCdnFetch(requests),
+    useSitemap: false,
+    detectSoft404s: false,
+    checkExternal: true,
+    externalRequestsPerSecond: 0,
+    retryBaseDelayMs: 10,
+    ...options,
+  });
+  return { checks, requests };
+}
+
+/** The methods used for each request to a CDN path, in order. */
+function methodsFor(requests: CdnRequest[], pathname: string): string[] {
+  return requests.filter((r) => r.path === pathname).map((r) => r.method);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("link-scanner", () => {
+  describe("link checks", () => {
+    it("should fall back from HEAD to GET on 405 and 501", async () => {
+      const { checks, requests } = await scanExternal({ retries: 0 });
+
+      expect(methodsFor(requests, "/head-405")).toEqual(["HEAD", "GET"]);
+      expect(methodsFor(requests, "/head-501")).toEqual(["HEAD", "GET"]);
+      expect(checks.get("/head-405")).toMatchObject({ statusCode: 200, attempts: 1 });
+      expect(checks.get("/head-501")).toMatchObject({ statusCode: 200, attempts: 1 });
+    });
+
+    it("should only use GET when headFirst is off", async () => {
+      const { requests } = await scanExternal({ retries: 0, headFirst: false });
+
+      expect(methodsFor(requests, "/head-405")).toEqual(["GET"]);
+    });
+
+    it("should retry a 429 after the server's Retry-After delay", async () => {
+      const { checks, requests } = await scanExternal({ retries: 2 });
+
+      const busy = requests.filter((r) => r.path === "/busy");
+      expect(busy).toHaveLength(2);
+      // The backoff alone would wait 10ms at most
+      expect(busy[1]!.at - busy[0]!.at).toBeGreaterThanOrEqual(950);
+      expect(checks.get("/busy")).toMatchObject({ statusCode: 200, attempts: 2 });
+    });
+
+    it("should give up on a persistent 503 after the configured retries", async () => {
+      const { checks, requests } = await scanExternal({ retries: 2 });
+
+      expect(methodsFor(requests, "/down")).toEqual(["HEAD", "HEAD", "HEAD"]);
+      expect(checks.get("/down")).toMatchObject({ statusCode: 503, attempts: 3 });
+    });
+
+    it("should not retry when retries is 0", async () => {
+      const { checks } = await scanExternal({ retries: 0 });
+
+      expect(checks.get("/busy")).toMatchObject({ statusCode: 429, attempts: 1 });
+      expect(checks.get("/down")).toMatchObject({ statusCode: 503, attempts: 1 });
+    });
+  });
+
+  describe("concurrent crawl", () => {
+    // Home links to a, b and c; c is also reachable the long way round
+    // (a -> a2 -> a3 -> c), which must not change its depth
+    const site = (): Record<string, string> => ({
+      "index.html": pageLinking("/a", "/b", "/c"),
+      "a.html": pageLinking("/a2"),
+      "a2.html": pageLinking("/a3"),
+      "a3.html": pageLinking("/c"),
+      "b.html": pageLinking("/b2", "/b3"),
+      "b2.html": pageLinking("/"),
+      "b3.html": pageLinking("/"),
+      "c.html": pageLinking("/c2"),
+      "c2.html": pageLinking("/"),
+    });
+
+    it("should crawl exactly maxPages pages however many are in flight", async () => {
+      const rootDir = makeSite(site());
+
+      for (const maxPages of [1, 3, 5]) {
+        const result = await scanSite("https://example.com", {
+          rootDir,
+          maxPages,
+          crawlConcurrency: 4,
+          useSitemap: false,
+          detectSoft404s: false,
+        });
+
+        expect(result.pagesCrawled).toBe(maxPages);
+        expect(result.crawledPages).toHaveLength(maxPages);
+      }
+    });
+
+    it("should finish once the frontier drains", async () => {
+      const rootDir = makeSite(site());
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        crawlConcurrency: 8,
+        useSitemap: false,
+        detectSoft404s: false,
+      });
+
+      expect(result.pagesCrawled).toBe(9);
+      expect(result.brokenLinks).toEqual([]);
+    });
+
+    it("should report the same shortest depths at any concurrency", async () => {
+      const rootDir = makeSite(site());
+      const depthsAt = async (crawlConcurrency: number) => {
+        const result = await scanSite("https://example.com", {
+          rootDir,
+          crawlConcurrency,
+          useSitemap: false,
+          detectSoft404s: false,
+        });
+        return Object.fromEntries(
+          result.crawledPages.map((page) => [new URL(page.url).pathname, page.depth])
+        );
+      };
+
+      const sequential = await depthsAt(1);
+      expect(sequential).toEqual({
+        "/": 0,
+        "/a": 1,
+        "/b": 1,
+        "/c": 1,
+        "/a2": 2,
+        "/b2": 2,
+        "/b3": 2,
+        "/c2": 2,
+        "/a3": 3,
+      });
+      for (const crawlConcurrency of [2, 4, 8]) {
+        expect(await depthsAt(crawlConcurrency)).toEqual(sequential);
+      }
+    });
+
+    it("should crawl the same pages within maxDepth at any concurrency", async () => {
+      // Home links to a and b; b is slow, so a's long way round to x
+      // (a -> a2 -> x) is found first, while x's child y is only within
+      // maxDepth by b's shorter path (b -> x -> y)
+      const links: Record<string, string[]> = {
+        "/": ["/a", "/b"],
+        "/a": ["/a2"],
+        "/a2": ["/x"],
+        "/b": ["/x"],
+        "/x": ["/y"],
+        "/y": ["/"],
+      };
+      const siteFetch = (async (input: string | URL | Request) => {
+        const { pathname } = new URL(String(input));
+        if (!links[pathname]) return new Response(null, { status: 404 });
+        if (pathname === "/b") await new Promise((resolve) => setTimeout(resolve, 50));
+        return new Response(pageLinking(...links[pathname]!), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }) as typeof fetch;
+      const crawl = async (crawlConcurrency: number) => {
+        const result = await scanSite("https://example.com", {
+          fetch: siteFetch,
+          renderer: "static",
+          maxDepth: 3,
+          crawlConcurrency,
+          useSitemap: false,
+          detectSoft404s: false,
+        });
+        return result.crawledPages.map((page) => [new URL(page.url).pathname, page.depth]);
+      };
+
+      const sequential = await crawl(1);
+      expect(Object.fromEntries(sequential)).toEqual({
+        "/": 0,
+        "/a": 1,
+        "/b": 1,
+        "/a2": 2,
+        "/x": 2,
+        "/y": 3,
+      });
+      for (const crawlConcurrency of [2, 4, 8]) {
+        const concurrent = await crawl(crawlConcurrency);
+        expect(concurrent.map(([url]) => url).sort()).toEqual(
+          sequential.map(([url]) => url).sort()
+        );
+        expect(Object.fromEntries(concurrent)).toEqual(Object.fromEntries(sequential));
+      }
+    });
+  });
+
+  describe("maxDepth", () => {
+    // Home -> a -> b -> c; the sitemap lists a, c and a page nothing links to
+    const site = (): Record<string, string> => ({
+      "index.html": pageLinking("/a"),
+      "a.html": pageLinking("/b"),
+      "b.html": pageLinking("/c"),
+      "c.html": pageLinking("/"),
+      "sitemap-only.html": pageLinking("/"),
+      "sitemap.xml":
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+        ["/a", "/c", "/sitemap-only"]
+          .map((page) => `<url><loc>https://example.com${page}</loc></url>`)
+          .join("") +
+        "</urlset>",
+    });
+    const crawl = async (maxDepth?: number) => {
+      const result = await scanSite("https://example.com", {
+        rootDir: makeSite(site()),
+        maxDepth,
+        detectSoft404s: false,
+      });
+      return Object.fromEntries(
+        result.crawledPages.map((page) => [new URL(page.url).pathname, page.depth])
+      );
+    };
+
+    it("should crawl sitemap pages a link reaches within maxDepth, at their link depth", async () => {
+      expect(await crawl(1)).toEqual({ "/": 0, "/a": 1 });
+      expect(await crawl(3)).toEqual({ "/": 0, "/a": 1, "/b": 2, "/c": 3 });
+    });
+
+    it("should crawl sitemap-only pages without a depth when maxDepth is unset", async () => {
+      expect(await crawl()).toEqual({
+        "/": 0,
+        "/a": 1,
+        "/b": 2,
+        "/c": 3,
+        "/sitemap-only": null,
+      });
+    });
+  });
+
+  describe("directory sites", () => {
+    it("should resolve relative links on a directory index against the directory", async () => {
+      const rootDir = makeSite({
+        "index.html": pageLinking("/docs"),
+        "docs/index.html": pageLinking("install.html"),
+        "docs/install.html": pageLinking("/"),
+      });
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        useSitemap: false,
+        detectSoft404s: false,
+        retries: 0,
+      });
+
+      expect(result.brokenLinks).toEqual([]);
+      expect(result.crawledPages.map((page) => page.url)).toContain(
+        "https://example.com/docs/install.html"
+      );
+    });
+  });
+
+  describe("fragments", () => {
+    it("should only check fragments against pages that exist", async () => {
+      const rootDir = makeSite({
+        "index.html": pageLinking("/guide#install", "/guide#missing", "/gone#intro"),
+        "guide.html": '<main><h2 id="install">Install</h2></main>',
+        "404.html": '<main><h1 id="top">Not found</h1></main>',
+      });
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        useSitemap: false,
+        detectSoft404s: false,
+        retries: 0,
+      });
+
+      expect(result.brokenLinks.map((link) => link.href)).toEqual([
+        "https://example.com/gone",
+      ]);
+      expect(result.brokenFragments.map((fragment) => fragment.href)).toEqual([
+        "https://example.com/guide#missing",
+      ]);
+    });
+  });
+
+  describe("soft 404s", () => {
+    it("should not judge linked files that are not HTML as pages", async () => {
+      const rootDir = makeSite({
+        "index.html": pageLinking("/notes.txt", "/guide.pdf", "/logo.png"),
+        "notes.txt": "ok",
+        "guide.pdf": "%PDF",
+        "logo.png": "png",
+      });
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        useSitemap: false,
+        retries: 0,
+      });
+
+      expect(result.pagesCrawled).toBe(4);
+      expect(result.soft404s).toEqual([]);
+      expect(result.brokenLinks).toEqual([]);
+    });
+  });
+
+  describe("robots.txt", () => {
+    it("should apply each internal origin's own robots.txt", async () => {
+      const rootDir = makeSite({
+        "index.html": pageLinking(
+          "/guide",
+          "https://docs.example.com/guide",
+          "https://docs.example.com/private/notes"
+        ),
+        "guide.html": pageLinking("/"),
+        "robots.txt": "User-agent: *\nDisallow: /guide\n",
+      });
+      const docsRequests: string[] = [];
+      const docsFetch = (async (input: string | URL | Request) => {
+        const url = new URL(String(input));
+        docsRequests.push(url.pathname);
+        if (url.pathname === "/robots.txt") {
+          return new Response("User-agent: *\nDisallow: /private\n");
+        }
+        return new Response("<main>Docs</main>", { headers: { "Content-Type": "text/html" } });
+      }) as typeof fetch;
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        fetch: docsFetch,
+        internalOrigins: ["https://docs.example.com"],
+        useSitemap: false,
+        detectSoft404s: false,
+      });
+
+      expect(result.robotsBlocked.sort()).toEqual([
+        "https://docs.example.com/private/notes",
+        "https://example.com/guide",
+      ]);
+      expect(result.crawledPages.map((page) => page.url)).toContain(
+        "https://docs.example.com/guide"
+      );
+      expect(docsRequests.filter((p) => p === "/robots.txt")).toHaveLength(1);
+    });
+  });
+
+  describe("stylesheets", () => {
+    it("should check url() references in the site's stylesheets", async () => {
+      const rootDir = makeSite({
+        "index.html":
+          '<head><link rel="stylesheet" href="/css/site.css"></head><main>Home</main>',
+        "css/site.css":
+          '.hero { background: url("../img/hero.png"); }\n' +
+          "@font-face { src: url(/fonts/missing.woff2); }",
+        "img/hero.png": "png",
+      });
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        useSitemap: false,
+        detectSoft404s: false,
+      });
+
+      expect(result.brokenLinks).toHaveLength(1);
+      expect(result.brokenLinks[0]).toMatchObject({
+        href: "https://example.com/fonts/missing.woff2",
+        kind: "css-url",
+        sourcePage: "https://example.com/css/site.css",
+      });
+      expect(result.brokenLinks[0]!.referrers[0]!.file).toMatch(/site\.css$/);
+    });
+  });
+
+  describe("orphan pages", () => {
+    it("should only report working pages as missing from the sitemap", async () => {
+      const rootDir = makeSite({
+        "index.html": pageLinking("/listed", "/unlisted", "/missing"),
+        "listed.html": pageLinking("/"),
+        "unlisted.html": pageLinking("/"),
+        "sitemap.xml":
+          '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+          "<url><loc>https://example.com/</loc></url>" +
+          "<url><loc>https://example.com/listed</loc></url>" +
+          "<url><loc>https://example.com/forgotten</loc></url>" +
+          "</urlset>",
+      });
+
+      const result = await scanSite("https://example.com", {
+        rootDir,
+        detectSoft404s: false,
+        retries: 0,
+      });
+
+      expect(result.orphanPages).toEqual({
+        unlinked: ["https://example.com/forgotten"],
+        unlisted: ["https://example.com/unlisted"],
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMixedContent,
+  isMixedContent,
+  mixedContentFixes,
+  toHttpsUrl,
+} from "../src/mixed-content.js";
+import type { DiscoveredLink } from "../src/checkpoint.js";
+import type { TargetCheck } from "../src/seo-checks.js";
+import type { ResourceKind } from "../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAGE_URL = "https://example.com/blog/post";
+
+function discovered(kind: ResourceKind): DiscoveredLink {
+  return {
+    kind,
+    referrers: new Map([
+      [
+        PAGE_URL,
+        { page: PAGE_URL, text: "", selector: "main > img:nth-of-type(1)", occurrences: 1 },
+      ],
+    ]),
+  };
+}
+
+function check(statusCode: number | null): TargetCheck {
+  return { statusCode, finalUrl: null, redirectChain: [], error: null };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("mixed-content", () => {
+  describe("isMixedContent()", () => {
+    it("should only flag http references on https pages", () => {
+      expect(isMixedContent(PAGE_URL, "http://example.com/a")).toBe(true);
+      expect(isMixedContent(PAGE_URL, "https://example.com/a")).toBe(false);
+      expect(isMixedContent("http://example.com/", "http://example.com/a")).toBe(false);
+    });
+  });
+
+  describe("toHttpsUrl()", () => {
+    it("should switch the protocol and keep the rest of the URL", () => {
+      expect(toHttpsUrl("http://example.com:8080/a?b=1#c")).toBe(
+        "https://example.com:8080/a?b=1#c"
+      );
+    });
+  });
+
+  describe("findMixedContent()", () => {
+    it("should classify references and suggest https when it works", () => {
+      const insecure = new Map([
+        ["http://cdn.example.com/photo.jpg", discovered("image")],
+        ["http://example.com/about", discovered("link")],
+        ["http://widgets.example.org/embed.js", discovered("script")],
+      ]);
+      const checks = new Map([
+        ["https://cdn.example.com/photo.jpg", check(200)],
+        ["https://example.com/about", check(200)],
+        ["https://widgets.example.org/embed.js", check(null)],
+      ]);
+
+      const findings = findMixedContent(insecure, (url) => checks.get(url));
+
+      expect(findings.map((f) => [f.type, f.severity, f.href])).toEqual([
+        ["active", "error", "http://widgets.example.org/embed.js"],
+        ["passive", "warning", "http://cdn.example.com/photo.jpg"],
+        ["link", "info", "http://example.com/about"],
+      ]);
+      expect(findings[0]).toMatchObject({
+        httpsUrl: "https://widgets.example.org/embed.js",
+        httpsStatus: null,
+        httpsAvailable: false,
+        suggestedHref: null,
+      });
+      expect(findings[1]).toMatchObject({
+        kind: "image",
+        httpsStatus: 200,
+        httpsAvailable: true,
+        suggestedHref: "https://cdn.example.com/photo.jpg",
+        sourcePage: PAGE_URL,
+      });
+      expect(findings[1]!.referrers).toHaveLength(1);
+    });
+
+    it("should not suggest https URLs that answer an error", () => {
+      const insecure = new Map([["http://old.example.com/x.css", discovered("stylesheet")]]);
+
+      const [finding] = findMixedContent(insecure, () => check(404));
+
+      expect(finding!.type).toBe("active");
+      expect(finding!.httpsStatus).toBe(404);
+      expect(finding!.suggestedHref).toBeNull();
+    });
+  });
+
+  describe("mixedContentFixes()", () => {
+    it("should turn upgradable findings into https-upgrade fixes", () => {
+      const insecure = new Map([
+        ["http://cdn.example.com/photo.jpg", discovered("image")],
+        ["http://old.example.com/x.css", discovered("stylesheet")],
+      ]);
+      const findings = findMixedContent(insecure, (url) =>
+        check(url.includes("cdn") ? 200 : 404)
+      );
+
+      expect(mixedContentFixes(findings)).toEqual([
+        {
+          originalHref: "http://cdn.example.com/photo.jpg",
+          suggestedHref: "https://cdn.example.com/photo.jpg",
+          confidence: 1,
+          method: "https-upgrade",
+          sourcePages: [PAGE_URL],
+        },
+      ]);
+    });
+  });
+});
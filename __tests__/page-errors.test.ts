@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { addPageError, toPageError, toPageErrorReports } from "../src/page-errors.js";
+import type { PageError } from "../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NODE_STACK =
+  "TypeError: Cannot read properties of undefined (reading 'id')\n" +
+  "    at loadUser (https://example.com/app.js:12:9)\n" +
+  "    at main (https://example.com/app.js:40:3)";
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("page-errors", () => {
+  describe("toPageError()", () => {
+    it("should extract the stack trace of script errors", () => {
+      const error = toPageError("javascript-error", "Cannot read properties of undefined", {
+        body: NODE_STACK,
+      });
+
+      expect(error.stackTrace).toContain("at loadUser");
+      expect(error.statusCode).toBeNull();
+      expect(error.occurrences).toBe(1);
+      // Script errors are not mistaken for timeouts
+      expect(error.errorClass).not.toBe("timeout");
+    });
+
+    it("should classify failing subresources by status and body", () => {
+      const gateway = toPageError("http-error", "502 Bad Gateway", {
+        url: "https://example.com/api/items",
+        statusCode: 502,
+      });
+      const database = toPageError("http-error", "500 Internal Server Error", {
+        url: "https://example.com/api/cart",
+        statusCode: 500,
+        body: "error: connection to postgres refused",
+      });
+
+      expect(gateway.errorClass).toBe("upstream-dependency");
+      expect(gateway.url).toBe("https://example.com/api/items");
+      expect(database.errorClass).toBe("database-error");
+    });
+
+    it("should classify requests without a response as timeouts", () => {
+      const error = toPageError("request-failed", "net::ERR_CONNECTION_REFUSED", {
+        url: "https://cdn.example.com/font.woff2",
+      });
+
+      expect(error.errorClass).toBe("timeout");
+    });
+
+    it("should truncate long messages", () => {
+      const error = toPageError("console-error", "x".repeat(5000));
+
+      expect(error.message).toHaveLength(500);
+    });
+  });
+
+  describe("addPageError()", () => {
+    it("should count repeats of the same error", () => {
+      const errors: PageError[] = [];
+      addPageError(errors, toPageError("console-error", "Failed to load widget"));
+      addPageError(errors, toPageError("console-error", "Failed to load widget"));
+      addPageError(
+        errors,
+        toPageError("console-error", "Failed to load widget", {
+          url: "https://example.com/widget.js",
+        })
+      );
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]!.occurrences).toBe(2);
+      expect(errors[1]!.occurrences).toBe(1);
+    });
+  });
+
+  describe("toPageErrorReports()", () => {
+    it("should list only pages with errors, in crawl order", () => {
+      const error = toPageError("javascript-error", "boom");
+      const reports = toPageErrorReports(
+        new Map([
+          ["https://example.com/b", [error]],
+          ["https://example.com/a", []],
+          ["https://example.com/c", [error]],
+        ])
+      );
+
+      expect(reports.map((r) => r.page)).toEqual([
+        "https://example.com/b",
+        "https://example.com/c",
+      ]);
+    });
+  });
+});
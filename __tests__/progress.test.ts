@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { createMonitorEvents, createScanEvents } from "../src/events.js";
+import { attachMonitorProgress, attachScanProgress } from "../src/progress.js";
+import type { HealthCheckResult, LinkCheckResult } from "../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** A progress stream that keeps what is written. */
+function makeStream(isTTY: boolean): {
+  output: () => string;
+  write(text: string): void;
+  isTTY: boolean;
+} {
+  const chunks: string[] = [];
+  return {
+    isTTY,
+    write: (text: string) => {
+      chunks.push(text);
+    },
+    output: () => chunks.join(""),
+  };
+}
+
+function makeResult(href: string): LinkCheckResult {
+  return {
+    sourcePage: "https://example.com/",
+    referrers: [],
+    href,
+    resolvedUrl: href,
+    kind: "link",
+    statusCode: 200,
+    isRedirect: false,
+    finalUrl: null,
+    redirectChain: [],
+    redirectStatuses: [],
+    error: null,
+    attempts: 1,
+  };
+}
+
+function makeHealthCheck(overrides: Partial<HealthCheckResult> = {}): HealthCheckResult {
+  return {
+    url: "https://example.com/",
+    statusCode: 200,
+    responseTimeMs: 42,
+    headers: {},
+    bodySnippet: null,
+    stackTrace: null,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    healthy: true,
+    errorClass: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("progress", () => {
+  describe("attachScanProgress()", () => {
+    it("should write a line per crawled page and check phase", () => {
+      const events = createScanEvents();
+      const stream = makeStream(false);
+      attachScanProgress(events, stream);
+
+      events.emit("scan-started", {
+        rootUrl: "https://example.com/",
+        resumed: true,
+        pagesCrawled: 3,
+        queued: 2,
+        linksChecked: 10,
+      });
+      events.emit("page-started", { url: "https://example.com/a", depth: 1 });
+      events.emit("page-failed", { url: "https://example.com/a", error: "Timeout" });
+      events.emit("checks-started", { phase: "links", total: 4 });
+      events.emit("link-checked", {
+        phase: "links",
+        result: makeResult("https://example.com/a"),
+        checked: 1,
+        total: 4,
+      });
+
+      expect(stream.output()).toBe(
+        "  Resuming: 3 page(s) crawled, 2 queued, 10 link(s) checked\n" +
+          "  Crawling: https://example.com/a\n" +
+          "  Error crawling https://example.com/a: Timeout\n" +
+          "\n  Checking 4 unique links...\n"
+      );
+    });
+
+    it("should draw a progress bar on terminals", () => {
+      const events = createScanEvents();
+      const stream = makeStream(true);
+      attachScanProgress(events, stream);
+
+      events.emit("link-checked", {
+        phase: "links",
+        result: makeResult("https://example.com/a"),
+        checked: 1,
+        total: 2,
+      });
+      events.emit("url-checked", {
+        phase: "canonicals",
+        url: "https://example.com/b",
+        checked: 2,
+        total: 2,
+      });
+
+      expect(stream.output()).toBe(
+        `\r  [${"#".repeat(15)}${"-".repeat(15)}] 1/2` + `\r  [${"#".repeat(30)}] 2/2\n`
+      );
+    });
+  });
+
+  describe("attachMonitorProgress()", () => {
+    it("should write each check with its classification", () => {
+      const events = createMonitorEvents();
+      const stream = makeStream(false);
+      attachMonitorProgress(events, stream);
+
+      events.emit("round-started", { round: 1, endpoints: ["/", "/api"] });
+      events.emit("endpoint-checked", { round: 1, result: makeHealthCheck(), remediation: null });
+      events.emit("endpoint-checked", {
+        round: 1,
+        result: makeHealthCheck({
+          url: "https://example.com/api",
+          statusCode: 503,
+          healthy: false,
+          errorClass: "upstream-dependency",
+        }),
+        remediation: {
+          type: "open-issue",
+          description: "Check upstream services.",
+          autoApplicable: false,
+          triggeredBy: "upstream-dependency",
+        },
+      });
+
+      expect(stream.output()).toBe(
+        "\n  [Round 1] Checking 2 endpoint(s)...\n" +
+          "    [OK] https://example.com/ -> 200 (42ms)\n" +
+          "    [FAIL] https://example.com/api -> 503 (42ms)\n" +
+          "    Classification: upstream-dependency\n" +
+          "    Recommendation: Check upstream services.\n"
+      );
+    });
+  });
+});
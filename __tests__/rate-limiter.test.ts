@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  createConcurrencyLimiter,
+  createHostLimiter,
+  createThrottle,
+} from "../src/rate-limiter.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("rate-limiter", () => {
+  describe("createThrottle()", () => {
+    it("should space successive callers apart", async () => {
+      const throttle = createThrottle(30);
+      const start = Date.now();
+
+      await throttle();
+      await throttle();
+      await throttle();
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(55);
+    });
+
+    it("should not wait when the interval is zero", async () => {
+      const throttle = createThrottle(0);
+      const start = Date.now();
+
+      await Promise.all([throttle(), throttle(), throttle()]);
+
+      expect(Date.now() - start).toBeLessThan(20);
+    });
+  });
+
+  describe("createConcurrencyLimiter()", () => {
+    it("should run at most the given number of tasks at once, in call order", async () => {
+      const limit = createConcurrencyLimiter(2);
+      const gate = deferred();
+      const started: number[] = [];
+
+      const all = Promise.all(
+        [1, 2, 3, 4].map((n) =>
+          limit(async () => {
+            started.push(n);
+            await gate.promise;
+          })
+        )
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(started).toEqual([1, 2]);
+
+      gate.resolve();
+      await all;
+      expect(started).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should leave shared slots free for other hosts while one host's queue waits", async () => {
+      const limitHost = createHostLimiter({ concurrency: 1, requestsPerSecond: 0 });
+      const limitShared = createConcurrencyLimiter(2);
+      const gate = deferred();
+      const started: string[] = [];
+
+      const check = (url: string) =>
+        limitHost(url, () =>
+          limitShared(async () => {
+            started.push(url);
+            if (url.includes("slow")) await gate.promise;
+          })
+        );
+
+      const slow = Promise.all([1, 2, 3].map((n) => check(`https://slow.example.org/${n}`)));
+      await check("https://fast.example.org/a");
+      expect(started).toEqual(["https://slow.example.org/1", "https://fast.example.org/a"]);
+
+      gate.resolve();
+      await slow;
+    });
+  });
+
+  describe("createHostLimiter()", () => {
+    it("should cap concurrent requests per host", async () => {
+      const limit = createHostLimiter({ concurrency: 2, requestsPerSecond: 0 });
+      const gate = deferred();
+      let active = 0;
+      let peak = 0;
+
+      const task = () =>
+        limit("https://docs.example.org/page", async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await gate.promise;
+          active--;
+        });
+
+      const all = Promise.all([task(), task(), task(), task()]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(active).toBe(2);
+
+      gate.resolve();
+      await all;
+      expect(peak).toBe(2);
+    });
+
+    it("should not let one host block another", async () => {
+      const limit = createHostLimiter({ concurrency: 1, requestsPerSecond: 0 });
+      const gate = deferred();
+      const started: string[] = [];
+
+      const slow = limit("https://slow.example.org/a", async () => {
+        started.push("slow");
+        await gate.promise;
+      });
+      const fast = limit("https://fast.example.org/a", async () => {
+        started.push("fast");
+      });
+
+      await fast;
+      expect(started).toEqual(["slow", "fast"]);
+
+      gate.resolve();
+      await slow;
+    });
+  });
+});
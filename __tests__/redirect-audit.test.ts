@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { auditRedirects, redirectsFromAudit } from "../src/redirect-audit.js";
+import type { LinkCheckResult, ScanResult } from "../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function redirectLink(
+  overrides: Partial<LinkCheckResult> = {}
+): LinkCheckResult {
+  return {
+    sourcePage: "https://example.com/",
+    referrers: [
+      { page: "https://example.com/", text: "Old", selector: "a", occurrences: 1 },
+    ],
+    href: "https://example.com/old",
+    resolvedUrl: "https://example.com/old",
+    kind: "link",
+    statusCode: 200,
+    isRedirect: true,
+    finalUrl: "https://example.com/new",
+    redirectChain: ["https://example.com/old"],
+    redirectStatuses: [301],
+    error: null,
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("auditRedirects", () => {
+  it("reports nothing for a single permanent redirect", () => {
+    expect(auditRedirects([redirectLink()])).toEqual([]);
+  });
+
+  it("flags chains longer than maxHops and collapses them", () => {
+    const link = redirectLink({
+      redirectChain: ["https://example.com/old", "https://example.com/older"],
+      redirectStatuses: [301, 301],
+    });
+
+    const findings = auditRedirects([link], { maxHops: 1 });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      type: "long-chain",
+      severity: "warning",
+      href: "https://example.com/old",
+      hops: [
+        "https://example.com/old",
+        "https://example.com/older",
+        "https://example.com/new",
+      ],
+      statuses: [301, 301],
+      sourcePages: ["https://example.com/"],
+      recommendedRedirect: { from: "/old", to: "/new", statusCode: 301 },
+    });
+    expect(auditRedirects([link], { maxHops: 2 })).toEqual([]);
+  });
+
+  it("reports loops without a recommended rule", () => {
+    const link = redirectLink({
+      redirectChain: ["https://example.com/a", "https://example.com/b"],
+      redirectStatuses: [301, 301],
+      finalUrl: "https://example.com/a",
+      error: "Redirect loop",
+    });
+
+    const findings = auditRedirects([link]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]!.type).toBe("loop");
+    expect(findings[0]!.severity).toBe("error");
+    expect(findings[0]!.recommendedRedirect).toBeNull();
+  });
+
+  it("skips chains that never reached a page", () => {
+    const link = redirectLink({
+      statusCode: null,
+      redirectChain: Array.from({ length: 11 }, (_, i) => `https://example.com/hop${i}`),
+      redirectStatuses: Array.from({ length: 11 }, () => 301),
+      finalUrl: "https://example.com/hop11",
+      error: "Too many redirects",
+    });
+
+    expect(auditRedirects([link])).toEqual([]);
+  });
+
+  it("recommends no rule for chains that end in an error page", () => {
+    const link = redirectLink({
+      href: "https://example.com/a",
+      statusCode: 404,
+      redirectChain: ["https://example.com/a", "https://example.com/b"],
+      redirectStatuses: [301, 301],
+      finalUrl: "https://example.com/c",
+    });
+
+    const findings = auditRedirects([link]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]!.type).toBe("long-chain");
+    expect(findings[0]!.recommendedRedirect).toBeNull();
+    expect(redirectsFromAudit(findings)).toEqual([]);
+  });
+
+  it("flags HTTPS to HTTP downgrades and recommends the HTTPS target", () => {
+    const link = redirectLink({
+      href: "https://example.com/old",
+      finalUrl: "http://example.com/new",
+    });
+
+    const [finding] = auditRedirects([link]);
+
+    expect(finding!.type).toBe("https-downgrade");
+    expect(finding!.severity).toBe("error");
+    expect(finding!.recommendedRedirect).toEqual({
+      from: "/old",
+      to: "/new",
+      statusCode: 301,
+    });
+  });
+
+  it("flags redirects that drop the query string", () => {
+    const link = redirectLink({
+      href: "https://example.com/search?q=shoes",
+      redirectChain: ["https://example.com/search?q=shoes"],
+      finalUrl: "https://example.com/find",
+    });
+
+    const [finding] = auditRedirects([link]);
+
+    expect(finding!.type).toBe("query-dropped");
+    expect(finding!.message).toContain("?q=shoes");
+    expect(finding!.recommendedRedirect).toBeNull();
+  });
+
+  it("uses an absolute target for cross-origin redirects", () => {
+    const link = redirectLink({
+      redirectChain: ["https://example.com/old", "https://other.example/mid"],
+      redirectStatuses: [301, 301],
+      finalUrl: "https://other.example/new",
+    });
+
+    const [finding] = auditRedirects([link]);
+
+    expect(finding!.recommendedRedirect!.to).toBe("https://other.example/new");
+  });
+
+  it("flags temporary redirects that were present in the previous report", () => {
+    const link = redirectLink({ redirectStatuses: [302] });
+    const previous = { redirectLinks: [link] } as unknown as ScanResult;
+
+    expect(auditRedirects([link])).toEqual([]);
+
+    const findings = auditRedirects([link], { previous });
+    expect(findings).toHaveLength(1);
+    expect(findings[0]!.type).toBe("persistent-temporary");
+  });
+
+  it("ignores previous reports without per-hop statuses", () => {
+    const link = redirectLink({ redirectStatuses: [302] });
+    const legacy = {
+      redirectLinks: [{ ...link, redirectStatuses: undefined }],
+    } as unknown as ScanResult;
+
+    expect(auditRedirects([link], { previous: legacy })).toEqual([]);
+  });
+});
+
+describe("redirectsFromAudit", () => {
+  it("returns one rule per source path", () => {
+    const link = redirectLink({
+      href: "https://example.com/old?x=1",
+      redirectChain: ["https://example.com/old?x=1", "https://example.com/older"],
+      redirectStatuses: [301, 301],
+    });
+
+    const findings = auditRedirects([link]);
+    expect(findings.map((f) => f.type)).toEqual(["long-chain", "query-dropped"]);
+
+    expect(redirectsFromAudit(findings)).toEqual([
+      { from: "/old", to: "/new", statusCode: 301 },
+    ]);
+  });
+});
@@ -24,10 +24,22 @@ function makeScanResult(overrides: Partial<ScanResult> = {}): ScanResult {
     baseUrl: "https://example.com",
     totalLinks: 10,
     pagesCrawled: 5,
+    crawledPages: [],
     brokenLinks: [],
+    soft404s: [],
     redirectLinks: [],
+    redirectAudit: [],
+    seoFindings: [],
+    mixedContent: [],
+    pageErrors: [],
+    lintFindings: [],
+    duplicateContent: [],
     serverErrors: [],
     connectionErrors: [],
+    brokenFragments: [],
+    externalBrokenLinks: [],
+    robotsBlocked: [],
+    orphanPages: { unlinked: [], unlisted: [] },
     timestamp: "2025-01-01T00:00:00.000Z",
     ...overrides,
   };
@@ -70,13 +82,17 @@ describe("reporter", () => {
         brokenLinks: [
           {
             sourcePage: "https://example.com/",
+            referrers: [],
             href: "https://example.com/missing",
             resolvedUrl: "https://example.com/missing",
+            kind: "link",
             statusCode: 404,
             isRedirect: false,
             finalUrl: null,
             redirectChain: [],
+            redirectStatuses: [],
             error: null,
+            attempts: 1,
           },
         ],
       });
@@ -102,6 +118,423 @@ describe("reporter", () => {
       expect(output).toContain("All links healthy");
     });
 
+    it("should list orphan pages from the sitemap comparison", () => {
+      reportScan(
+        makeScanResult({
+          orphanPages: {
+            unlinked: ["https://example.com/landing/spring-sale"],
+            unlisted: ["https://example.com/internal-only"],
+          },
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("In sitemap but not linked from any page: 1");
+      expect(output).toContain("https://example.com/landing/spring-sale");
+      expect(output).toContain("Crawled but missing from sitemap: 1");
+      expect(output).toContain("https://example.com/internal-only");
+    });
+
+    it("should list every page a broken link was found on", () => {
+      reportScan(
+        makeScanResult({
+          brokenLinks: [
+            {
+              sourcePage: "https://example.com/",
+              referrers: [
+                {
+                  page: "https://example.com/",
+                  text: "See pricing",
+                  selector: "nav > a:nth-of-type(3)",
+                  occurrences: 2,
+                },
+                {
+                  page: "https://example.com/blog/launch",
+                  text: "our plans",
+                  selector: "#content > p:nth-of-type(4) > a:nth-of-type(1)",
+                  occurrences: 1,
+                },
+              ],
+              href: "https://example.com/old-pricing",
+              resolvedUrl: "https://example.com/old-pricing",
+              kind: "link",
+              statusCode: 404,
+              isRedirect: false,
+              finalUrl: null,
+              redirectChain: [],
+              redirectStatuses: [],
+              error: null,
+              attempts: 1,
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Found on 2 pages");
+      expect(output).toContain('https://example.com/ "See pricing" x2');
+      expect(output).toContain("https://example.com/blog/launch");
+      expect(output).toContain("#content > p:nth-of-type(4) > a:nth-of-type(1)");
+    });
+
+    it("should group broken resources by kind", () => {
+      const resource = (href: string, kind: "image" | "script") => ({
+        sourcePage: "https://example.com/product",
+        referrers: [],
+        href,
+        resolvedUrl: href,
+        kind,
+        statusCode: 404,
+        isRedirect: false,
+        finalUrl: null,
+        redirectChain: [],
+        redirectStatuses: [],
+        error: null,
+        attempts: 1,
+      });
+
+      reportScan(
+        makeScanResult({
+          brokenLinks: [
+            resource("https://example.com/img/hero.jpg", "image"),
+            resource("https://example.com/js/app.js", "script"),
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Broken resources (404): 2");
+      expect(output).toContain("Images");
+      expect(output).toContain("https://example.com/img/hero.jpg");
+      expect(output).toContain("Scripts");
+      expect(output).not.toContain("No broken links found");
+    });
+
+    it("should list broken fragments with their source pages", () => {
+      reportScan(
+        makeScanResult({
+          brokenFragments: [
+            {
+              kind: "broken-fragment",
+              href: "https://example.com/docs/install#configuring-proxy",
+              targetUrl: "https://example.com/docs/install",
+              fragment: "configuring-proxy",
+              sourcePages: ["https://example.com/docs"],
+              availableAnchors: ["configure-a-proxy"],
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Broken fragments: 1");
+      expect(output).toContain("#configuring-proxy");
+      expect(output).toContain("https://example.com/docs");
+    });
+
+    it("should list broken external links in their own section", () => {
+      reportScan(
+        makeScanResult({
+          externalBrokenLinks: [
+            {
+              sourcePage: "https://example.com/docs",
+              referrers: [],
+              href: "https://partner.example.org/gone",
+              resolvedUrl: "https://partner.example.org/gone",
+              kind: "link",
+              statusCode: 410,
+              isRedirect: false,
+              finalUrl: null,
+              redirectChain: [],
+              redirectStatuses: [],
+              error: null,
+              attempts: 1,
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Broken external links: 1");
+      expect(output).toContain("https://partner.example.org/gone");
+      expect(output).toContain("Total issues: 1");
+    });
+
+    it("should link evidence screenshots under the referring page", () => {
+      reportScan(
+        makeScanResult({
+          brokenLinks: [
+            {
+              sourcePage: "https://example.com/",
+              referrers: [
+                {
+                  page: "https://example.com/",
+                  text: "Pricing",
+                  selector: "nav > a:nth-of-type(2)",
+                  occurrences: 1,
+                },
+              ],
+              href: "https://example.com/old-pricing",
+              resolvedUrl: "https://example.com/old-pricing",
+              kind: "link",
+              statusCode: 404,
+              isRedirect: false,
+              finalUrl: null,
+              redirectChain: [],
+              redirectStatuses: [],
+              error: null,
+              attempts: 1,
+              evidence: [
+                {
+                  page: "https://example.com/",
+                  selector: "nav > a:nth-of-type(2)",
+                  screenshot: "/tmp/evidence/001-index.png",
+                  snippet: '<nav><a href="/old-pricing">Pricing</a></nav>',
+                },
+              ],
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Screenshot: file:///tmp/evidence/001-index.png");
+      expect(output).toContain('<nav><a href="/old-pricing">Pricing</a></nav>');
+    });
+
+    it("should list redirect audit findings with the recommended rule", () => {
+      reportScan(
+        makeScanResult({
+          redirectAudit: [
+            {
+              type: "long-chain",
+              severity: "warning",
+              href: "https://example.com/old",
+              hops: [
+                "https://example.com/old",
+                "https://example.com/older",
+                "https://example.com/new",
+              ],
+              statuses: [301, 302],
+              message: "2 redirects before reaching the page (max 1)",
+              sourcePages: ["https://example.com/"],
+              recommendedRedirect: { from: "/old", to: "/new", statusCode: 301 },
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Redirect audit: 1");
+      expect(output).toContain(
+        "https://example.com/old -301-> https://example.com/older -302-> https://example.com/new"
+      );
+      expect(output).toContain("Recommended: /old -> /new (301)");
+    });
+
+    it("should group mixed content and show the suggested rewrite", () => {
+      reportScan(
+        makeScanResult({
+          mixedContent: [
+            {
+              type: "active",
+              severity: "error",
+              href: "http://widgets.example.org/embed.js",
+              kind: "script",
+              httpsUrl: "https://widgets.example.org/embed.js",
+              httpsStatus: null,
+              httpsAvailable: false,
+              suggestedHref: null,
+              sourcePage: "https://example.com/",
+              referrers: [],
+            },
+            {
+              type: "passive",
+              severity: "warning",
+              href: "http://cdn.example.com/photo.jpg",
+              kind: "image",
+              httpsUrl: "https://cdn.example.com/photo.jpg",
+              httpsStatus: 200,
+              httpsAvailable: true,
+              suggestedHref: "https://cdn.example.com/photo.jpg",
+              sourcePage: "https://example.com/",
+              referrers: [],
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Mixed content: 2");
+      expect(output).toContain("Active content (blocked by browsers)");
+      expect(output).toContain("No working https version (failed)");
+      expect(output).toContain("Passive content (loaded with a warning)");
+      expect(output).toContain("Rewrite to https://cdn.example.com/photo.jpg");
+    });
+
+    it("should list page errors per page with their classification", () => {
+      reportScan(
+        makeScanResult({
+          pageErrors: [
+            {
+              page: "https://example.com/checkout",
+              errors: [
+                {
+                  type: "javascript-error",
+                  message: "Cannot read properties of null (reading 'total')",
+                  url: null,
+                  statusCode: null,
+                  stackTrace:
+                    "TypeError: Cannot read properties of null (reading 'total')\n" +
+                    "    at renderCart (https://example.com/app.js:10:5)",
+                  errorClass: "unhandled-exception",
+                  occurrences: 3,
+                },
+                {
+                  type: "http-error",
+                  message: "503 Service Unavailable",
+                  url: "https://example.com/api/cart",
+                  statusCode: 503,
+                  stackTrace: null,
+                  errorClass: "upstream-dependency",
+                  occurrences: 1,
+                },
+              ],
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Page errors: 2 on 1 page(s)");
+      expect(output).toContain("https://example.com/checkout");
+      expect(output).toContain("Cannot read properties of null (reading 'total')");
+      expect(output).toContain("(x3)");
+      expect(output).toContain("at renderCart (https://example.com/app.js:10:5)");
+      expect(output).toContain("https://example.com/api/cart");
+      expect(output).toContain("Classified as upstream-dependency");
+    });
+
+    it("should list link lint findings with the rule and pages", () => {
+      reportScan(
+        makeScanResult({
+          lintFindings: [
+            {
+              rule: "generic-text",
+              severity: "warning",
+              href: "/pricing",
+              message: 'Link text "click here" does not say where the link goes',
+              sourcePage: "https://example.com/",
+              referrers: [
+                {
+                  page: "https://example.com/",
+                  text: "click here",
+                  selector: "main > p:nth-of-type(2) > a:nth-of-type(1)",
+                  occurrences: 2,
+                },
+              ],
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Link lint: 1");
+      expect(output).toContain("generic-text");
+      expect(output).toContain('Link text "click here" does not say where the link goes');
+      expect(output).toContain('https://example.com/ "click here" x2');
+    });
+
+    it("should list groups of duplicate pages", () => {
+      reportScan(
+        makeScanResult({
+          duplicateContent: [
+            {
+              type: "identical",
+              severity: "warning",
+              pages: ["https://example.com/shoes/boots", "https://example.com/sale/boots"],
+              similarity: 1,
+            },
+            {
+              type: "near-duplicate",
+              severity: "info",
+              pages: ["https://example.com/a", "https://example.com/b"],
+              similarity: 0.953125,
+            },
+          ],
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Duplicate content: 2 group(s)");
+      expect(output).toContain("https://example.com/sale/boots");
+      expect(output).toContain("95% similar");
+    });
+
+    it("should print baseline comparison groups", () => {
+      const finding = (url: string) => ({
+        category: "broken-link" as const,
+        url,
+        detail: "404",
+        sourcePages: ["https://example.com/"],
+      });
+
+      reportScan(
+        makeScanResult({
+          baselineComparison: {
+            baselineTimestamp: "2024-12-01T00:00:00.000Z",
+            newFindings: [finding("https://example.com/new-break")],
+            stillPresent: [finding("https://example.com/legacy")],
+            resolved: [finding("https://example.com/fixed")],
+          },
+        }),
+        "console"
+      );
+
+      const output = consoleSpy.mock.calls
+        .map((call) => String(call[0]))
+        .join("\n");
+      expect(output).toContain("Compared with baseline from 2024-12-01");
+      expect(output).toContain("New: 1");
+      expect(output).toContain("Still present: 1");
+      expect(output).toContain("Resolved: 1");
+      expect(output).toContain("https://example.com/new-break");
+      expect(output).toContain("https://example.com/fixed");
+    });
+
     it("should output fix report to console", () => {
       const fixes: LinkFix[] = [
         {
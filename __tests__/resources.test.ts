@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseSrcset, extractCssUrls } from "../src/resources.js";
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("resources", () => {
+  describe("parseSrcset()", () => {
+    it("should return each candidate URL without descriptors", () => {
+      expect(
+        parseSrcset("/img/hero-480.jpg 480w, /img/hero-960.jpg 960w")
+      ).toEqual(["/img/hero-480.jpg", "/img/hero-960.jpg"]);
+    });
+
+    it("should handle density descriptors and a single candidate", () => {
+      expect(parseSrcset("logo.png")).toEqual(["logo.png"]);
+      expect(parseSrcset("logo.png 1x,\n  logo@2x.png 2x")).toEqual([
+        "logo.png",
+        "logo@2x.png",
+      ]);
+    });
+
+    it("should split candidates at commas without a space after them", () => {
+      expect(parseSrcset("a.jpg 480w,b.jpg 800w")).toEqual(["a.jpg", "b.jpg"]);
+      expect(parseSrcset("a.jpg,, b.jpg 2x,c.jpg")).toEqual(["a.jpg", "b.jpg", "c.jpg"]);
+    });
+
+    it("should keep commas that are part of a URL", () => {
+      expect(
+        parseSrcset("https://cdn.example.com/w_400,h_300/hero.jpg 400w")
+      ).toEqual(["https://cdn.example.com/w_400,h_300/hero.jpg"]);
+    });
+  });
+
+  describe("extractCssUrls()", () => {
+    it("should extract quoted and unquoted url() references", () => {
+      const css = `
+        .hero { background: url("/img/hero.jpg") no-repeat; }
+        @font-face { src: url('/fonts/brand.woff2') format("woff2"); }
+        .icon { background-image: url(/img/icon.svg); }
+      `;
+
+      expect(extractCssUrls(css)).toEqual([
+        "/img/hero.jpg",
+        "/fonts/brand.woff2",
+        "/img/icon.svg",
+      ]);
+    });
+
+    it("should skip data URIs", () => {
+      expect(
+        extractCssUrls("background: url(data:image/png;base64,iVBORw0KGgo=)")
+      ).toEqual([]);
+    });
+  });
+});
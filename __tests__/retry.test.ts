@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_RETRY_DELAY_MS,
+  computeBackoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "../src/retry.js";
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("retry", () => {
+  describe("isRetryableStatus()", () => {
+    it("should retry rate limits and gateway errors", () => {
+      for (const status of [408, 429, 502, 503, 504]) {
+        expect(isRetryableStatus(status)).toBe(true);
+      }
+    });
+
+    it("should not retry real breakage or success", () => {
+      for (const status of [200, 301, 404, 410, 500]) {
+        expect(isRetryableStatus(status)).toBe(false);
+      }
+    });
+  });
+
+  describe("parseRetryAfter()", () => {
+    it("should parse delta-seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120000);
+    });
+
+    it("should parse an HTTP date relative to now", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+    });
+
+    it("should clamp dates in the past to zero", () => {
+      const now = Date.parse("2025-01-01T00:01:00Z");
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:00 GMT", now)).toBe(0);
+    });
+
+    it("should return null for missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+
+  describe("computeBackoffDelay()", () => {
+    it("should grow exponentially", () => {
+      const noJitter = () => 1;
+      expect(computeBackoffDelay(0, 500, noJitter)).toBe(500);
+      expect(computeBackoffDelay(1, 500, noJitter)).toBe(1000);
+      expect(computeBackoffDelay(2, 500, noJitter)).toBe(2000);
+    });
+
+    it("should apply jitter between half and all of the delay", () => {
+      expect(computeBackoffDelay(2, 500, () => 0)).toBe(1000);
+      expect(computeBackoffDelay(2, 500, () => 0.5)).toBe(1500);
+    });
+
+    it("should cap the delay", () => {
+      expect(computeBackoffDelay(20, 500, () => 1)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+});
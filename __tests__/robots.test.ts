@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { parseRobotsTxt, isAllowedByRobots } from "../src/robots.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ROBOTS = `
+# Production robots.txt
+User-agent: *
+Disallow: /admin
+Disallow: /tmp/
+Crawl-delay: 1
+
+User-agent: site-autofix
+Disallow: /admin
+Allow: /admin/public
+Disallow: /*.pdf$
+Crawl-delay: 2.5
+
+Sitemap: https://example.com/sitemap-index.xml
+`;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("robots", () => {
+  describe("parseRobotsTxt()", () => {
+    it("should prefer the group naming our user agent over *", () => {
+      const rules = parseRobotsTxt(ROBOTS);
+
+      expect(rules.rules).toHaveLength(3);
+      expect(rules.crawlDelay).toBe(2.5);
+    });
+
+    it("should fall back to the * group", () => {
+      const rules = parseRobotsTxt(ROBOTS, "some-other-bot");
+
+      expect(rules.rules.map((r) => r.pattern)).toEqual(["/admin", "/tmp/"]);
+      expect(rules.crawlDelay).toBe(1);
+    });
+
+    it("should collect sitemap declarations", () => {
+      expect(parseRobotsTxt(ROBOTS).sitemaps).toEqual([
+        "https://example.com/sitemap-index.xml",
+      ]);
+    });
+
+    it("should share rules between consecutive user-agent lines", () => {
+      const rules = parseRobotsTxt(
+        "User-agent: googlebot\nUser-agent: site-autofix\nDisallow: /private\n"
+      );
+      expect(rules.rules).toEqual([{ allow: false, pattern: "/private" }]);
+    });
+
+    it("should treat an empty Disallow as allowing everything", () => {
+      const rules = parseRobotsTxt("User-agent: *\nDisallow:\n");
+      expect(rules.rules).toEqual([]);
+      expect(isAllowedByRobots(rules, "https://example.com/anything")).toBe(true);
+    });
+  });
+
+  describe("isAllowedByRobots()", () => {
+    const rules = parseRobotsTxt(ROBOTS);
+
+    it("should block disallowed path prefixes", () => {
+      expect(isAllowedByRobots(rules, "https://example.com/admin")).toBe(false);
+      expect(isAllowedByRobots(rules, "https://example.com/admin/users")).toBe(false);
+    });
+
+    it("should let the longest matching rule win", () => {
+      expect(
+        isAllowedByRobots(rules, "https://example.com/admin/public/help")
+      ).toBe(true);
+    });
+
+    it("should support * wildcards and $ anchors", () => {
+      expect(isAllowedByRobots(rules, "https://example.com/docs/guide.pdf")).toBe(false);
+      expect(
+        isAllowedByRobots(rules, "https://example.com/docs/guide.pdf?v=2")
+      ).toBe(true);
+    });
+
+    it("should allow paths that no rule matches", () => {
+      expect(isAllowedByRobots(rules, "https://example.com/pricing")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import {
+  findSeoIssues,
+  isNoindex,
+  type PageSeo,
+  type TargetCheck,
+} from "../src/seo-checks.js";
+import { parseStaticPage } from "../src/static-renderer.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAGE_URL = "https://example.com/en/pricing";
+
+const HTML = `<!doctype html>
+<html>
+  <head>
+    <link rel="Canonical" href="/en/pricing">
+    <link rel="alternate" hreflang="en" href="/en/pricing">
+    <link rel="alternate" hreflang="de-DE" href="https://example.com/de/preise">
+    <link rel="alternate" hreflang="x-default" href="/pricing">
+    <meta name="ROBOTS" content="noindex, Follow">
+  </head>
+  <body>
+    <header><a href="/">Home</a></header>
+    <nav><a href="/en/docs">Docs</a></nav>
+    <div role="navigation"><a href="/en/blog">Blog</a></div>
+    <main><a href="/en/contact">Contact</a></main>
+  </body>
+</html>`;
+
+function seo(overrides: Partial<PageSeo> = {}): PageSeo {
+  return { canonical: null, alternates: [], robots: [], navLinks: [], ...overrides };
+}
+
+function check(overrides: Partial<TargetCheck> = {}): TargetCheck {
+  return { statusCode: 200, finalUrl: null, redirectChain: [], error: null, ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("seo-checks", () => {
+  describe("extractPageSeo()", () => {
+    it("should read canonical, hreflang, robots and navigation links", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: true,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      expect(page.seo).toEqual({
+        canonical: "https://example.com/en/pricing",
+        alternates: [
+          { hreflang: "en", url: "https://example.com/en/pricing" },
+          { hreflang: "de-de", url: "https://example.com/de/preise" },
+          { hreflang: "x-default", url: "https://example.com/pricing" },
+        ],
+        robots: ["noindex", "follow"],
+        navLinks: [
+          "https://example.com/",
+          "https://example.com/en/docs",
+          "https://example.com/en/blog",
+        ],
+      });
+    });
+
+    it("should be skipped unless requested", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      expect(page.seo).toBeNull();
+    });
+  });
+
+  describe("isNoindex()", () => {
+    it("should recognize noindex and none", () => {
+      expect(isNoindex(["noindex", "follow"])).toBe(true);
+      expect(isNoindex(["none"])).toBe(true);
+      expect(isNoindex(["nofollow"])).toBe(false);
+    });
+  });
+
+  describe("findSeoIssues()", () => {
+    it("should flag canonicals that point at broken URLs", () => {
+      const pages = new Map([
+        ["https://example.com/a", seo({ canonical: "https://example.com/gone" })],
+      ]);
+      const checks = new Map([["https://example.com/gone", check({ statusCode: 404 })]]);
+
+      const findings = findSeoIssues(pages, (url) => checks.get(url));
+
+      expect(findings).toEqual([
+        {
+          type: "canonical-broken",
+          severity: "error",
+          page: "https://example.com/a",
+          target: "https://example.com/gone",
+          message: "Canonical points to https://example.com/gone, which answers 404",
+          sourcePages: ["https://example.com/a"],
+        },
+      ]);
+    });
+
+    it("should flag canonicals that redirect", () => {
+      const pages = new Map([
+        ["https://example.com/a", seo({ canonical: "https://example.com/old" })],
+      ]);
+      const checks = new Map([
+        [
+          "https://example.com/old",
+          check({
+            redirectChain: ["https://example.com/old"],
+            finalUrl: "https://example.com/new",
+          }),
+        ],
+      ]);
+
+      const [finding] = findSeoIssues(pages, (url) => checks.get(url));
+
+      expect(finding!.type).toBe("canonical-redirect");
+      expect(finding!.severity).toBe("warning");
+      expect(finding!.message).toContain("redirects to https://example.com/new");
+    });
+
+    it("should accept healthy and unchecked canonicals", () => {
+      const pages = new Map([
+        ["https://example.com/a", seo({ canonical: "https://example.com/a" })],
+        ["https://example.com/b", seo({ canonical: "https://other.example/b" })],
+      ]);
+      const checks = new Map([["https://example.com/a", check()]]);
+
+      expect(findSeoIssues(pages, (url) => checks.get(url))).toEqual([]);
+    });
+
+    it("should flag hreflang alternates that do not link back", () => {
+      const en = "https://example.com/en";
+      const de = "https://example.com/de";
+      const fr = "https://example.com/fr";
+      const pages = new Map([
+        [
+          en,
+          seo({
+            alternates: [
+              { hreflang: "en", url: en },
+              { hreflang: "de", url: de },
+              { hreflang: "fr", url: fr },
+            ],
+          }),
+        ],
+        [de, seo({ alternates: [{ hreflang: "de", url: de }] })],
+      ]);
+
+      const findings = findSeoIssues(pages, () => undefined);
+
+      // fr was not crawled, so it cannot be compared
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        type: "hreflang-not-reciprocal",
+        severity: "error",
+        page: en,
+        target: de,
+      });
+    });
+
+    it("should compare hreflang URLs after normalization", () => {
+      const en = "https://example.com/en";
+      const de = "https://example.com/de";
+      const pages = new Map([
+        [en, seo({ alternates: [{ hreflang: "de", url: `${de}/` }] })],
+        [de, seo({ alternates: [{ hreflang: "en", url: `${en}/` }] })],
+      ]);
+
+      const findings = findSeoIssues(pages, () => undefined, (url) =>
+        url.replace(/\/$/, "")
+      );
+
+      expect(findings).toEqual([]);
+    });
+
+    it("should flag noindex pages linked from the main navigation", () => {
+      const pages = new Map([
+        ["https://example.com/", seo({ navLinks: ["https://example.com/beta"] })],
+        ["https://example.com/docs", seo({ navLinks: ["https://example.com/beta"] })],
+        [
+          "https://example.com/beta",
+          seo({ robots: ["noindex"], navLinks: ["https://example.com/beta"] }),
+        ],
+        ["https://example.com/drafts", seo({ robots: ["noindex"] })],
+      ]);
+
+      const findings = findSeoIssues(pages, () => undefined);
+
+      expect(findings).toEqual([
+        {
+          type: "noindex-in-nav",
+          severity: "warning",
+          page: "https://example.com/beta",
+          target: null,
+          message: "Page is noindex but linked from the main navigation of 2 pages",
+          sourcePages: ["https://example.com/", "https://example.com/docs"],
+        },
+      ]);
+    });
+  });
+});
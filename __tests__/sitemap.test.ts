@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { gzipSync } from "node:zlib";
+import { parseSitemap, decodeSitemapBody } from "../src/sitemap.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const URLSET = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>https://example.com/</loc>
+    <lastmod>2025-01-01</lastmod>
+  </url>
+  <url>
+    <loc>https://example.com/landing/spring-sale</loc>
+  </url>
+  <url>
+    <loc>https://example.com/search?q=a&amp;page=2</loc>
+  </url>
+</urlset>`;
+
+const SITEMAP_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap>
+    <loc>https://example.com/sitemap-pages.xml</loc>
+  </sitemap>
+  <sitemap>
+    <loc><![CDATA[ https://example.com/sitemap-blog.xml.gz ]]></loc>
+  </sitemap>
+</sitemapindex>`;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("sitemap", () => {
+  describe("parseSitemap()", () => {
+    it("should extract page locations from a urlset", () => {
+      const parsed = parseSitemap(URLSET);
+
+      expect(parsed.type).toBe("urlset");
+      expect(parsed.locations).toEqual([
+        "https://example.com/",
+        "https://example.com/landing/spring-sale",
+        "https://example.com/search?q=a&page=2",
+      ]);
+    });
+
+    it("should recognize a sitemap index and unwrap CDATA locations", () => {
+      const parsed = parseSitemap(SITEMAP_INDEX);
+
+      expect(parsed.type).toBe("sitemapindex");
+      expect(parsed.locations).toEqual([
+        "https://example.com/sitemap-pages.xml",
+        "https://example.com/sitemap-blog.xml.gz",
+      ]);
+    });
+
+    it("should handle namespace-prefixed elements", () => {
+      const xml =
+        '<sm:urlset xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+        "<sm:url><sm:loc>https://example.com/a</sm:loc></sm:url>" +
+        "</sm:urlset>";
+
+      expect(parseSitemap(xml).locations).toEqual(["https://example.com/a"]);
+    });
+
+    it("should return no locations for a document without <loc> entries", () => {
+      const parsed = parseSitemap("<html><body>Not found</body></html>");
+      expect(parsed.locations).toEqual([]);
+    });
+  });
+
+  describe("decodeSitemapBody()", () => {
+    it("should pass plain XML through unchanged", () => {
+      expect(decodeSitemapBody(Buffer.from(URLSET, "utf-8"))).toBe(URLSET);
+    });
+
+    it("should gunzip compressed sitemaps", () => {
+      const compressed = gzipSync(Buffer.from(URLSET, "utf-8"));
+      expect(decodeSitemapBody(compressed)).toBe(URLSET);
+    });
+  });
+});
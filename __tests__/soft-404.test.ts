@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SOFT_404_OPTIONS,
+  detectSoft404,
+  extractPageText,
+  makeProbeUrl,
+  textSimilarity,
+  stripPath,
+} from "../src/soft-404.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAGE_URL = "https://example.com/some-page";
+const NAV = "Home Products Pricing Blog Docs Contact";
+const FOOTER = "Copyright 2025 Example Inc. All rights reserved. Privacy Terms";
+
+function page(title: string, main: string): string {
+  return `<html><head><title>${title}</title><script>var x = "page not found";</script></head>
+<body><nav>${NAV}</nav><main>${main}</main><footer>${FOOTER}</footer></body></html>`;
+}
+
+const ARTICLE = page(
+  "Pricing plans",
+  "<h1>Pricing</h1><p>Choose the plan that fits your team. Every plan includes unlimited projects, priority support and a fourteen day free trial.</p>"
+);
+
+// A catch-all template that avoids the default not-found phrases
+const CATCH_ALL = page(
+  "Example Inc.",
+  "<h1>Oops!</h1><p>We looked everywhere for /PATH but came up empty. Try the search box or head back to the home page.</p>"
+);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("soft-404", () => {
+  describe("extractPageText()", () => {
+    it("should return the title and visible text without scripts", () => {
+      const text = extractPageText(ARTICLE);
+
+      expect(text.title).toBe("Pricing plans");
+      expect(text.text).toContain("Choose the plan that fits your team.");
+      expect(text.text).not.toContain("var x");
+    });
+  });
+
+  describe("textSimilarity()", () => {
+    it("should score identical texts 1 and unrelated texts near 0", () => {
+      expect(textSimilarity("the quick brown fox", "the quick brown fox")).toBe(1);
+      expect(
+        textSimilarity("the quick brown fox jumps", "lorem ipsum dolor sit amet")
+      ).toBe(0);
+    });
+  });
+
+  describe("detectSoft404()", () => {
+    it("should flag not-found titles and text", () => {
+      expect(
+        detectSoft404(
+          PAGE_URL,
+          extractPageText(page("404 | Example", "<p>Hello there, welcome back</p>")),
+          null
+        )
+      ).toMatch(/^Title "404 \| Example"/);
+      expect(
+        detectSoft404(
+          PAGE_URL,
+          extractPageText(page("Example", "<h1>Page not found</h1>")),
+          null
+        )
+      ).toMatch(/^Text "Page not found"/);
+      expect(
+        detectSoft404(
+          PAGE_URL,
+          extractPageText(page("Example - Page Not Found", "<p>Hello there, welcome back</p>")),
+          null
+        )
+      ).toMatch(/^Title/);
+    });
+
+    it("should not flag genuine titles that mention 404s or missing things", () => {
+      for (const title of [
+        "Fixing 404 errors",
+        "Dependency not found in npm",
+        "How we cut 404 responses by half",
+      ]) {
+        const article = extractPageText(page(title, "<p>A long enough article body.</p>"));
+
+        expect(detectSoft404(PAGE_URL, article, null)).toBeNull();
+      }
+    });
+
+    it("should flag pages nearly identical to the not-found probe", () => {
+      const probeUrl = "https://example.com/site-autofix-probe-abc123";
+      const probeText = stripPath(
+        probeUrl,
+        extractPageText(CATCH_ALL.replace("/PATH", "/site-autofix-probe-abc123")).text
+      );
+      const deadUrl = "https://example.com/old-pricing";
+      const deadPage = extractPageText(CATCH_ALL.replace("/PATH", "/old-pricing"));
+
+      expect(detectSoft404(deadUrl, deadPage, probeText)).toMatch(
+        /similar to the site's not-found page/
+      );
+      expect(
+        detectSoft404("https://example.com/pricing", extractPageText(ARTICLE), probeText)
+      ).toBeNull();
+    });
+
+    it("should flag near-empty pages unless disabled", () => {
+      const shell = extractPageText('<html><body><div id="root"></div></body></html>');
+
+      expect(detectSoft404(PAGE_URL, shell, null)).toMatch(/^Near-empty page \(0 characters/);
+      expect(
+        detectSoft404(PAGE_URL, shell, null, { ...DEFAULT_SOFT_404_OPTIONS, minTextLength: 0 })
+      ).toBeNull();
+    });
+
+    it("should use custom patterns instead of the defaults", () => {
+      const options = {
+        ...DEFAULT_SOFT_404_OPTIONS,
+        titlePatterns: ["^Oops"],
+        bodyPatterns: [],
+      };
+
+      expect(
+        detectSoft404(
+          PAGE_URL,
+          extractPageText(page("Oops - Example", "<p>Something else entirely</p>")),
+          null,
+          options
+        )
+      ).toMatch(/matches \/\^Oops\//);
+      expect(
+        detectSoft404(
+          PAGE_URL,
+          extractPageText(page("Help", "<h1>Page not found</h1>")),
+          null,
+          options
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe("stripPath()", () => {
+    it("should remove the path with or without its leading slash", () => {
+      expect(stripPath("https://example.com/old-pricing", "No page at /old-pricing.")).toBe(
+        "No page at  ."
+      );
+      expect(stripPath("https://example.com/docs/faq", "Nothing for docs/faq here")).toBe(
+        "Nothing for   here"
+      );
+    });
+
+    it("should leave words that merely contain a short path alone", () => {
+      expect(stripPath("https://example.com/en", "Open the menu at /en/docs")).toBe(
+        "Open the menu at /en/docs"
+      );
+      expect(stripPath("https://example.com/faq", "See the faqs or /faq")).toBe(
+        "See the faqs or  "
+      );
+    });
+  });
+
+  describe("makeProbeUrl()", () => {
+    it("should build a random path on the origin", () => {
+      expect(makeProbeUrl("https://example.com", () => 0.5)).toMatch(
+        /^https:\/\/example\.com\/site-autofix-probe-[a-z0-9]+$/
+      );
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Page, Route } from "playwright";
+import {
+  DEFAULT_SPA_OPTIONS,
+  SPA_MODE,
+  discoverRoutes,
+  installRouteRecorder,
+} from "../src/spa-discovery.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** A history method: pushState or replaceState. */
+type HistoryMethod = (data: unknown, unused: string, url?: string | null) => void;
+
+/** Stub the browser globals the route recorder wraps; returns its listeners. */
+function stubBrowser(href: string): {
+  location: { href: string };
+  history: Record<"pushState" | "replaceState", HistoryMethod>;
+  pushed: Array<string | null | undefined>;
+  listeners: Map<string, () => void>;
+} {
+  const location = { href };
+  const pushed: Array<string | null | undefined> = [];
+  const listeners = new Map<string, () => void>();
+  const navigate: HistoryMethod = (_data, _unused, url) => {
+    pushed.push(url);
+    if (url) location.href = new URL(url, location.href).toString();
+  };
+  const history = { pushState: navigate, replaceState: navigate };
+  vi.stubGlobal("location", location);
+  vi.stubGlobal("history", history);
+  vi.stubGlobal("addEventListener", (type: string, listener: () => void) => {
+    listeners.set(type, listener);
+  });
+  return { location, history, pushed, listeners };
+}
+
+/**
+ * A page whose controls each load a document at the given URL when clicked,
+ * through the page's route handler as a browser would. Returns the URLs the
+ * page actually loaded.
+ */
+function fakePage(
+  startUrl: string,
+  targets: string[]
+): { page: Page; loaded: string[] } {
+  let url = startUrl;
+  let handler: ((route: Route) => Promise<void>) | null = null;
+  const loaded: string[] = [];
+
+  const navigate = async (target: string): Promise<void> => {
+    let outcome: "aborted" | "continued" | null = null;
+    const route = {
+      request: () => ({
+        url: () => target,
+        isNavigationRequest: () => true,
+        resourceType: () => "document",
+      }),
+      abort: async () => {
+        outcome = "aborted";
+      },
+      fallback: async () => {
+        outcome = "continued";
+      },
+    } as unknown as Route;
+    await handler?.(route);
+    if (outcome !== "aborted") {
+      loaded.push(target);
+      url = target;
+    }
+  };
+
+  const page = {
+    url: () => url,
+    evaluate: async () => [],
+    on: () => undefined,
+    off: () => undefined,
+    route: async (_pattern: string, h: (route: Route) => Promise<void>) => {
+      handler = h;
+    },
+    unroute: async () => {
+      handler = null;
+    },
+    waitForTimeout: async () => undefined,
+    goBack: async () => {
+      url = startUrl;
+      return null;
+    },
+    goto: async () => null,
+    locator: () => ({
+      count: async () => targets.length,
+      nth: (i: number) => ({
+        evaluate: async () => true,
+        isVisible: async () => true,
+        textContent: async () => `Open ${i}`,
+        click: () => navigate(targets[i]!),
+      }),
+    }),
+  } as unknown as Page;
+
+  return { page, loaded };
+}
+
+/** The routes recorded so far. */
+function recordedRoutes(): string[] | undefined {
+  return (globalThis as { __siteAutofixRoutes?: string[] }).__siteAutofixRoutes;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("spa-discovery", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete (globalThis as { __siteAutofixRoutes?: string[] }).__siteAutofixRoutes;
+  });
+
+  describe("installRouteRecorder()", () => {
+    it("should record pushState and replaceState URLs as absolute URLs", () => {
+      const browser = stubBrowser("https://app.example.com/");
+      installRouteRecorder();
+
+      browser.history.pushState({}, "", "/settings");
+      browser.history.replaceState({}, "", "?tab=billing");
+      browser.history.pushState({}, "");
+
+      expect(recordedRoutes()).toEqual([
+        "https://app.example.com/settings",
+        "https://app.example.com/settings?tab=billing",
+      ]);
+      // The original methods still run
+      expect(browser.pushed).toEqual(["/settings", "?tab=billing", undefined]);
+    });
+
+    it("should record the location on popstate and hashchange", () => {
+      const browser = stubBrowser("https://app.example.com/");
+      installRouteRecorder();
+
+      browser.location.href = "https://app.example.com/#/about";
+      browser.listeners.get("hashchange")!();
+      browser.location.href = "https://app.example.com/docs";
+      browser.listeners.get("popstate")!();
+
+      expect(recordedRoutes()).toEqual([
+        "https://app.example.com/#/about",
+        "https://app.example.com/docs",
+      ]);
+    });
+
+    it("should only install once per page", () => {
+      const browser = stubBrowser("https://app.example.com/");
+      installRouteRecorder();
+      installRouteRecorder();
+
+      browser.history.pushState({}, "", "/a");
+
+      expect(recordedRoutes()).toEqual(["https://app.example.com/a"]);
+      expect(browser.pushed).toEqual(["/a"]);
+    });
+  });
+
+  describe("discoverRoutes()", () => {
+    it("should not load pages that robots.txt disallows, but still record them", async () => {
+      const { page, loaded } = fakePage("https://app.example.com/", [
+        "https://app.example.com/docs",
+        "https://app.example.com/admin/users",
+      ]);
+
+      const routes = await discoverRoutes(
+        page,
+        { ...DEFAULT_SPA_OPTIONS, ...SPA_MODE },
+        5000,
+        async (url) => new URL(url).pathname.startsWith("/admin")
+      );
+
+      expect(loaded).toEqual(["https://app.example.com/docs"]);
+      expect(routes.map((r) => [r.url, r.text])).toEqual([
+        ["https://app.example.com/docs", "Open 0"],
+        ["https://app.example.com/admin/users", "Open 1"],
+      ]);
+    });
+
+    it("should keep the routes found so far when the start page cannot be reloaded", async () => {
+      const { page, loaded } = fakePage("https://app.example.com/", [
+        "https://app.example.com/docs",
+        "https://app.example.com/pricing",
+      ]);
+      Object.assign(page, {
+        goBack: async () => null,
+        goto: async () => {
+          throw new Error("Timeout 5000ms exceeded");
+        },
+      });
+
+      const routes = await discoverRoutes(
+        page,
+        { ...DEFAULT_SPA_OPTIONS, ...SPA_MODE },
+        5000,
+        async () => false
+      );
+
+      expect(loaded).toEqual(["https://app.example.com/docs"]);
+      expect(routes.map((r) => r.url)).toEqual(["https://app.example.com/docs"]);
+    });
+  });
+
+  describe("options", () => {
+    it("should default to a plain document load", () => {
+      expect(DEFAULT_SPA_OPTIONS).toMatchObject({
+        waitUntil: "domcontentloaded",
+        waitForSelector: null,
+        scroll: false,
+        captureRoutes: false,
+      });
+    });
+
+    it("should wait for the network, scroll and capture routes in SPA mode", () => {
+      expect({ ...DEFAULT_SPA_OPTIONS, ...SPA_MODE }).toMatchObject({
+        waitUntil: "networkidle",
+        scroll: true,
+        captureRoutes: true,
+      });
+    });
+  });
+});
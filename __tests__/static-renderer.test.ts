@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { fetchStaticPage, parseStaticPage } from "../src/static-renderer.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAGE_URL = "https://example.com/docs/";
+
+const HTML = `<!doctype html>
+<html>
+  <head>
+    <link rel="Stylesheet" href="/site.css">
+    <style>.hero { background: url("img/hero.png"); }</style>
+  </head>
+  <body>
+    <nav id="top-nav">
+      <a href="/">Home</a>
+      <a href="guide#install">  Install
+        guide </a>
+    </nav>
+    <main>
+      <h2 id="overview">Overview</h2>
+      <a name="legacy"></a>
+      <img src="/logo.png" alt="Logo" srcset="/logo@2x.png 2x, /logo@3x.png 3x">
+      <a href="mailto:team@example.com">Mail</a>
+      <a href="https://other.com/page">Elsewhere</a>
+    </main>
+  </body>
+</html>`;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("static-renderer", () => {
+  describe("parseStaticPage()", () => {
+    it("should extract links with their text and selector", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      expect(page.url).toBe(PAGE_URL);
+      expect(page.anchors).toBeNull();
+      expect(page.references).toEqual([
+        {
+          url: "https://example.com/",
+          kind: "link",
+          text: "Home",
+          selector: "#top-nav > a:nth-of-type(1)",
+        },
+        {
+          url: "https://example.com/docs/guide#install",
+          kind: "link",
+          text: "Install guide",
+          selector: "#top-nav > a:nth-of-type(2)",
+        },
+        {
+          url: "https://other.com/page",
+          kind: "link",
+          text: "Elsewhere",
+          selector: "body:nth-of-type(1) > main:nth-of-type(1) > a:nth-of-type(3)",
+        },
+      ]);
+    });
+
+    it("should extract resources like the browser renderer", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: false,
+        includeResources: true,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      const resources = page.references
+        .filter((r) => r.kind !== "link")
+        .map((r) => [r.kind, r.url]);
+      expect(resources).toEqual([
+        ["image", "https://example.com/logo.png"],
+        ["image", "https://example.com/logo@2x.png"],
+        ["image", "https://example.com/logo@3x.png"],
+        ["stylesheet", "https://example.com/site.css"],
+        ["css-url", "https://example.com/docs/img/hero.png"],
+      ]);
+      expect(page.references.find((r) => r.kind === "image")!.text).toBe("Logo");
+    });
+
+    it("should only extract the actions of forms that submit with GET", async () => {
+      const page = await parseStaticPage(
+        `<form action="/search"></form>
+         <form action="/filter" method="GET"></form>
+         <form action="/subscribe" method="post"></form>`,
+        PAGE_URL,
+        200,
+        {
+          includeAnchors: false,
+          includeResources: true,
+          includeText: false,
+          includeSeo: false,
+          includeLinks: false,
+          includeFingerprint: false,
+        }
+      );
+
+      expect(page.references.map((r) => [r.kind, r.url])).toEqual([
+        ["form", "https://example.com/search"],
+        ["form", "https://example.com/filter"],
+      ]);
+    });
+
+    it("should collect id and name anchors", async () => {
+      const page = await parseStaticPage(HTML, PAGE_URL, 200, {
+        includeAnchors: true,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+      });
+
+      expect(page.anchors).toEqual(new Set(["top-nav", "overview", "legacy"]));
+    });
+  });
+
+  describe("fetchStaticPage()", () => {
+    it("should not send origin-only headers after a redirect to another origin", async () => {
+      const seen: Array<[string, string | null]> = [];
+      const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+        const url = String(input);
+        seen.push([url, new Headers(init?.headers).get("X-Api-Key")]);
+        if (url === "https://example.com/login") {
+          return new Response(null, {
+            status: 302,
+            headers: { Location: "https://sso.other.com/start" },
+          });
+        }
+        return new Response("<p>Sign in</p>", { headers: { "Content-Type": "text/html" } });
+      }) as typeof fetch;
+
+      const page = await fetchStaticPage("https://example.com/login", {
+        timeout: 5000,
+        includeAnchors: false,
+        includeResources: false,
+        includeText: false,
+        includeSeo: false,
+        includeLinks: false,
+        includeFingerprint: false,
+        credentials: {
+          origin: "https://example.com",
+          headers: { "X-Api-Key": "secret" },
+          basicAuth: null,
+          cookies: [],
+        },
+        fetch: fetchImpl,
+      });
+
+      expect(page.url).toBe("https://sso.other.com/start");
+      expect(seen).toEqual([
+        ["https://example.com/login", "secret"],
+        ["https://sso.other.com/start", null],
+      ]);
+    });
+  });
+});
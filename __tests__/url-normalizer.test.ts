@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { TRACKING_PARAMS, createNormalizer } from "../src/url-normalizer.js";
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("url-normalizer", () => {
+  describe("default rules", () => {
+    const normalize = createNormalizer();
+
+    it("should strip the fragment and trailing slash", () => {
+      expect(normalize("https://example.com/docs/#intro")).toBe("https://example.com/docs");
+      expect(normalize("https://example.com/")).toBe("https://example.com/");
+    });
+
+    it("should keep query parameters", () => {
+      expect(normalize("https://example.com/search?q=a&utm_source=x")).toBe(
+        "https://example.com/search?q=a&utm_source=x"
+      );
+    });
+
+    it("should return unparseable URLs unchanged", () => {
+      expect(normalize("not a url")).toBe("not a url");
+    });
+  });
+
+  describe("dropParams", () => {
+    it("should drop parameters by name and glob", () => {
+      const normalize = createNormalizer({ dropParams: ["utm_*", "ref"] });
+
+      expect(
+        normalize("https://example.com/p?utm_source=news&id=7&UTM_Medium=mail&ref=home")
+      ).toBe("https://example.com/p?id=7");
+      expect(normalize("https://example.com/p?utm_source=news")).toBe("https://example.com/p");
+      expect(normalize("https://example.com/p?referrer=1")).toBe(
+        "https://example.com/p?referrer=1"
+      );
+    });
+
+    it("should drop session ids passed as path parameters", () => {
+      const normalize = createNormalizer({ dropParams: ["jsessionid"] });
+
+      expect(normalize("https://example.com/cart;jsessionid=ABC123?item=1")).toBe(
+        "https://example.com/cart?item=1"
+      );
+    });
+
+    it("should leave the query encoding alone when nothing is dropped", () => {
+      const normalize = createNormalizer({ dropParams: ["utm_*"] });
+
+      expect(normalize("https://example.com/s?q=a%20b")).toBe("https://example.com/s?q=a%20b");
+    });
+
+    it("should cover common tracking parameters", () => {
+      const normalize = createNormalizer({ dropParams: TRACKING_PARAMS });
+
+      expect(
+        normalize("https://example.com/?gclid=1&fbclid=2&utm_campaign=3&page=2")
+      ).toBe("https://example.com/?page=2");
+    });
+  });
+
+  describe("sortParams", () => {
+    it("should make parameter order irrelevant", () => {
+      const normalize = createNormalizer({ sortParams: true });
+
+      expect(normalize("https://example.com/s?b=2&a=1")).toBe(
+        normalize("https://example.com/s?a=1&b=2")
+      );
+    });
+  });
+
+  describe("lowercasePath", () => {
+    it("should lowercase the path but not the query", () => {
+      const normalize = createNormalizer({ lowercasePath: true });
+
+      expect(normalize("https://example.com/Docs/Intro?Q=A")).toBe(
+        "https://example.com/docs/intro?Q=A"
+      );
+    });
+  });
+
+  describe("stripIndexFiles", () => {
+    it("should map index files to their directory", () => {
+      const normalize = createNormalizer({ stripIndexFiles: ["index.html"] });
+
+      expect(normalize("https://example.com/docs/index.html")).toBe("https://example.com/docs");
+      expect(normalize("https://example.com/INDEX.HTML")).toBe("https://example.com/");
+      expect(normalize("https://example.com/docs/reindex.html")).toBe(
+        "https://example.com/docs/reindex.html"
+      );
+    });
+  });
+
+  describe("trailingSlash", () => {
+    it("should add slashes to directory-like paths", () => {
+      const normalize = createNormalizer({
+        trailingSlash: "add",
+        stripIndexFiles: ["index.html"],
+      });
+
+      expect(normalize("https://example.com/docs")).toBe("https://example.com/docs/");
+      expect(normalize("https://example.com/docs/index.html")).toBe("https://example.com/docs/");
+      expect(normalize("https://example.com/app.js")).toBe("https://example.com/app.js");
+    });
+
+    it("should keep paths as they are", () => {
+      const normalize = createNormalizer({ trailingSlash: "keep" });
+
+      expect(normalize("https://example.com/docs/")).toBe("https://example.com/docs/");
+      expect(normalize("https://example.com/docs")).toBe("https://example.com/docs");
+    });
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * auth.ts
+ *
+ * Credentials for scanning sites behind a login: custom headers, cookie
+ * files, HTTP basic auth, Playwright storage state and a scripted login.
+ * The same credentials are applied to the crawling browser and to the
+ * fetch-based link checks.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type {
+  BrowserContext,
+  BrowserContextOptions,
+  Cookie,
+  Page,
+} from "playwright";
+
+/** HTTP basic auth credentials. */
+export interface BasicAuth {
+  username: string;
+  password: string;
+}
+
+/** How to authenticate against the scanned site. */
+export interface AuthOptions {
+  /** Extra request headers (e.g. Authorization), sent only to the scanned origin. */
+  headers?: Record<string, string>;
+  /** Cookie file: Netscape cookies.txt, a JSON cookie array, or a storage state. */
+  cookieFile?: string;
+  /** HTTP basic auth, sent only to the scanned origin. */
+  basicAuth?: BasicAuth;
+  /** Playwright storage state JSON file (cookies and localStorage). */
+  storageState?: string;
+  /** Module exporting `login(page, context)`, run once before the crawl. */
+  loginScript?: string;
+}
+
+/** Credentials resolved for one scan. */
+export interface Credentials {
+  /** The scanned origin; headers and basic auth are only sent here. */
+  origin: string;
+  /** Custom request headers. */
+  headers: Record<string, string>;
+  /** HTTP basic auth, if any. */
+  basicAuth: BasicAuth | null;
+  /** Cookies, sent to whichever hosts they match. */
+  cookies: Cookie[];
+}
+
+/** Signature of the function a login script exports. */
+export type LoginFunction = (page: Page, context: BrowserContext) => Promise<void>;
+
+/**
+ * Parse a `Name: value` header string as given on the command line.
+ */
+export function parseHeader(line: string): [string, string] {
+  const colon = line.indexOf(":");
+  const name = colon > 0 ? line.slice(0, colon).trim() : "";
+  if (!name) {
+    throw new Error(`Invalid header "${line}": expected "Name: value"`);
+  }
+  return [name, line.slice(colon + 1).trim()];
+}
+
+/**
+ * Parse a `username:password` string as given on the command line.
+ */
+export function parseBasicAuth(value: string): BasicAuth {
+  const colon = value.indexOf(":");
+  if (colon <= 0) {
+    throw new Error("Invalid basic auth: expected \"username:password\"");
+  }
+  return { username: value.slice(0, colon), password: value.slice(colon + 1) };
+}
+
+/**
+ * Parse a Netscape cookies.txt file (as exported by browsers and curl).
+ */
+function parseNetscapeCookies(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+    if (line.startsWith("#HttpOnly_")) {
+      line = line.slice("#HttpOnly_".length);
+      httpOnly = true;
+    } else if (line.startsWith("#") || line.trim() === "") {
+      continue;
+    }
+
+    const fields = line.split("\t");
+    if (fields.length < 7) continue;
+
+    const [domain, includeSubdomains, cookiePath, secure, expires, name] = fields;
+    const expiresAt = parseInt(expires, 10);
+    cookies.push({
+      name,
+      value: fields.slice(6).join("\t"),
+      domain:
+        includeSubdomains === "TRUE" && !domain.startsWith(".") ? `.${domain}` : domain,
+      path: cookiePath,
+      // 0 marks a session cookie in cookies.txt, -1 in Playwright
+      expires: Number.isNaN(expiresAt) || expiresAt === 0 ? -1 : expiresAt,
+      httpOnly,
+      secure: secure === "TRUE",
+      sameSite: "Lax",
+    });
+  }
+
+  return cookies;
+}
+
+/**
+ * Parse a cookie file. Accepts a JSON array of Playwright-style cookies, a
+ * Playwright storage state (`{ cookies: [...] }`), or Netscape cookies.txt.
+ */
+export function parseCookieFile(text: string): Cookie[] {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) {
+    return parseNetscapeCookies(text);
+  }
+
+  const data = JSON.parse(trimmed) as
+    | Array<Partial<Cookie>>
+    | { cookies?: Array<Partial<Cookie>> };
+  const entries = Array.isArray(data) ? data : data.cookies ?? [];
+
+  return entries
+    .filter((c) => typeof c.name === "string" && typeof c.domain === "string")
+    .map((c) => ({
+      name: c.name!,
+      value: c.value ?? "",
+      domain: c.domain!,
+      path: c.path ?? "/",
+      expires: c.expires ?? -1,
+      httpOnly: c.httpOnly ?? false,
+      secure: c.secure ?? false,
+      sameSite: c.sameSite ?? "Lax",
+    }));
+}
+
+/**
+ * Resolve the credentials for scanning `origin`, reading any cookie and
+ * storage state files.
+ */
+export function loadCredentials(origin: string, auth: AuthOptions): Credentials {
+  const cookies: Cookie[] = [];
+  for (const file of [auth.storageState, auth.cookieFile]) {
+    if (file) {
+      cookies.push(...parseCookieFile(fs.readFileSync(file, "utf-8")));
+    }
+  }
+
+  return {
+    origin,
+    headers: auth.headers ?? {},
+    basicAuth: auth.basicAuth ?? null,
+    cookies,
+  };
+}
+
+/**
+ * Whether a cookie should be sent with a request to `url`.
+ */
+function cookieMatches(cookie: Cookie, url: URL, now: number): boolean {
+  const host = url.hostname.toLowerCase();
+  const domain = cookie.domain.toLowerCase();
+  const domainMatches = domain.startsWith(".")
+    ? host === domain.slice(1) || host.endsWith(domain)
+    : host === domain;
+  if (!domainMatches) return false;
+
+  const cookiePath = cookie.path || "/";
+  const pathMatches =
+    url.pathname === cookiePath ||
+    url.pathname.startsWith(cookiePath.endsWith("/") ? cookiePath : `${cookiePath}/`);
+  if (!pathMatches) return false;
+
+  if (cookie.secure && url.protocol !== "https:") return false;
+  return cookie.expires === -1 || cookie.expires * 1000 > now;
+}
+
+/**
+ * Build the credential headers for a request to `url`. Custom headers and
+ * basic auth are only sent to the scanned origin, so they never leak to
+ * external links; cookies follow their own domain and path rules.
+ */
+export function credentialHeaders(
+  credentials: Credentials,
+  url: string,
+  now: number = Date.now()
+): Record<string, string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {};
+  }
+
+  const headers: Record<string, string> = {};
+  if (parsed.origin === credentials.origin) {
+    Object.assign(headers, credentials.headers);
+    if (credentials.basicAuth) {
+      const { username, password } = credentials.basicAuth;
+      headers["Authorization"] =
+        `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+    }
+  }
+
+  const cookies = credentials.cookies.filter((c) => cookieMatches(c, parsed, now));
+  if (cookies.length > 0) {
+    headers["Cookie"] = cookies.map((c) => `${c.name}=${c.value}`).join("; ");
+  }
+
+  return headers;
+}
+
+/** Redirects followed by fetchFollowingRedirects before it gives up. */
+const MAX_REDIRECTS = 10;
+
+/** How fetchFollowingRedirects makes each request. */
+export interface RedirectFetchOptions {
+  /** Request headers for one hop's URL, so credentials follow their own scoping. */
+  headers: (url: string) => Record<string, string>;
+  /** Aborts the whole request, redirects included. */
+  signal?: AbortSignal;
+  /** fetch implementation to use. Default: the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * GET a URL, following redirects by hand and asking for each hop's headers
+ * anew. fetch's own redirect handling would replay the first request's
+ * headers on every hop, sending origin-only credentials to whichever host
+ * a redirect points at. Returns the last response and the URL it came from.
+ */
+export async function fetchFollowingRedirects(
+  url: string,
+  options: RedirectFetchOptions
+): Promise<{ response: Response; url: string }> {
+  const fetchImpl = options.fetch ?? fetch;
+  let currentUrl = url;
+
+  for (let hop = 0; ; hop++) {
+    const response = await fetchImpl(currentUrl, {
+      redirect: "manual",
+      signal: options.signal,
+      headers: options.headers(currentUrl),
+    });
+    const location = response.headers.get("location");
+    const isRedirect = response.status >= 300 && response.status < 400 && location;
+    if (!isRedirect || hop >= MAX_REDIRECTS) {
+      return { response, url: currentUrl };
+    }
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+}
+
+/**
+ * Browser context options for the credentials: basic auth (scoped to the
+ * scanned origin) and the storage state file.
+ */
+export function toContextOptions(
+  credentials: Credentials,
+  auth: AuthOptions
+): BrowserContextOptions {
+  return {
+    storageState: auth.storageState,
+    httpCredentials: credentials.basicAuth
+      ? { ...credentials.basicAuth, origin: credentials.origin }
+      : undefined,
+  };
+}
+
+/**
+ * Add the cookies and custom headers to a browser context. Headers are
+ * injected per request rather than via extraHTTPHeaders, so third-party
+ * requests made by the page do not receive them.
+ */
+export async function applyCredentials(
+  context: BrowserContext,
+  credentials: Credentials
+): Promise<void> {
+  if (credentials.cookies.length > 0) {
+    await context.addCookies(credentials.cookies);
+  }
+
+  if (Object.keys(credentials.headers).length > 0) {
+    await context.route(
+      (url) => url.origin === credentials.origin,
+      (route) =>
+        route.continue({
+          headers: { ...route.request().headers(), ...credentials.headers },
+        })
+    );
+  }
+}
+
+/**
+ * Run a login script in the browser context. The script is a JavaScript
+ * module exporting `login(page, context)` (or a default function) that
+ * signs in, e.g. by filling in the login form.
+ */
+export async function runLoginScript(
+  scriptPath: string,
+  context: BrowserContext
+): Promise<void> {
+  const mod = (await import(pathToFileURL(path.resolve(scriptPath)).href)) as {
+    login?: unknown;
+    default?: unknown;
+  };
+  const candidates = [
+    mod.login,
+    mod.default,
+    (mod.default as { login?: unknown } | undefined)?.login,
+  ];
+  const login = candidates.find((c) => typeof c === "function") as
+    | LoginFunction
+    | undefined;
+  if (!login) {
+    throw new Error(
+      `Login script ${scriptPath} must export a login(page, context) function`
+    );
+  }
+
+  const page = await context.newPage();
+  try {
+    await login(page, context);
+  } finally {
+    await page.close();
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * baseline.ts
+ *
+ * Compares a scan against a previous scan report so known issues can be
+ * tolerated: each finding is classified as new, still present, or resolved,
+ * and only new regressions need to fail a CI run.
+ */
+
+import * as fs from "node:fs";
+import type {
+  BaselineComparison,
+  Finding,
+  FindingCategory,
+  LinkCheckResult,
+  ScanResult,
+} from "./types.js";
+
+/** Finding categories that fail a scan (and so count as regressions). */
+export const FAILING_CATEGORIES: FindingCategory[] = [
+  "broken-link",
+  "soft-404",
+  "broken-fragment",
+  "server-error",
+];
+
+function linkSources(link: LinkCheckResult): string[] {
+  const referrers = link.referrers ?? [];
+  return referrers.length > 0
+    ? referrers.map((r) => r.page)
+    : [link.sourcePage];
+}
+
+function fromLinks(
+  category: FindingCategory,
+  links: LinkCheckResult[] | undefined
+): Finding[] {
+  return (links ?? []).map((link) => ({
+    category,
+    url: link.href,
+    detail: link.statusCode !== null ? String(link.statusCode) : link.error ?? "",
+    sourcePages: linkSources(link),
+  }));
+}
+
+/**
+ * Flatten a scan result into its individual findings.
+ *
+ * Tolerates reports written by older versions that lack newer sections.
+ */
+export function collectFindings(result: ScanResult): Finding[] {
+  return [
+    ...fromLinks("broken-link", result.brokenLinks),
+    ...fromLinks("soft-404", result.soft404s),
+    ...fromLinks("server-error", result.serverErrors),
+    ...fromLinks("connection-error", result.connectionErrors),
+    ...fromLinks("external-broken-link", result.externalBrokenLinks),
+    ...(result.brokenFragments ?? []).map((frag) => ({
+      category: "broken-fragment" as const,
+      url: frag.href,
+      detail: `#${frag.fragment}`,
+      sourcePages: frag.sourcePages,
+    })),
+  ];
+}
+
+function findingKey(finding: Finding): string {
+  return `${finding.category} ${finding.url}`;
+}
+
+/**
+ * Classify the findings of `current` against those of `baseline`.
+ */
+export function compareWithBaseline(
+  current: ScanResult,
+  baseline: ScanResult
+): BaselineComparison {
+  const currentFindings = collectFindings(current);
+  const baselineFindings = collectFindings(baseline);
+  const baselineKeys = new Set(baselineFindings.map(findingKey));
+  const currentKeys = new Set(currentFindings.map(findingKey));
+
+  return {
+    baselineTimestamp: baseline.timestamp,
+    newFindings: currentFindings.filter((f) => !baselineKeys.has(findingKey(f))),
+    stillPresent: currentFindings.filter((f) => baselineKeys.has(findingKey(f))),
+    resolved: baselineFindings.filter((f) => !currentKeys.has(findingKey(f))),
+  };
+}
+
+/**
+ * Count the new findings that would fail a scan.
+ */
+export function countNewRegressions(comparison: BaselineComparison): number {
+  return comparison.newFindings.filter((f) =>
+    FAILING_CATEGORIES.includes(f.category)
+  ).length;
+}
+
+/**
+ * Load a previous scan report (as written by `scan --output-file`).
+ */
+export function loadBaseline(filePath: string): ScanResult {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as ScanResult;
+  if (!data || !Array.isArray(data.brokenLinks)) {
+    throw new Error(`${filePath} is not a scan report`);
+  }
+  return data;
+}
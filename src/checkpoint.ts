@@ -0,0 +1,250 @@
+/**
+ * checkpoint.ts
+ *
+ * Holds the in-progress state of a crawl and persists it to a JSON state
+ * file, so a long scan can be interrupted and resumed where it left off.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { PageLink } from "./link-lint.js";
+import type { PageSeo } from "./seo-checks.js";
+import type {
+  ContentFingerprint,
+  LinkCheckResult,
+  LinkReferrer,
+  PageError,
+  ResourceKind,
+} from "./types.js";
+
+/** A discovered URL awaiting its check. */
+export interface DiscoveredLink {
+  /** What references the URL; "link" wins if it is also used as a resource. */
+  kind: ResourceKind;
+  /** Referring pages, keyed by page URL, in discovery order. */
+  referrers: Map<string, LinkReferrer>;
+}
+
+/** Everything a scan has learned so far. */
+export interface CrawlState {
+  /** The root URL the scan started from. */
+  rootUrl: string;
+  /** Pages still to be crawled, in queue order (a Set, so membership is O(1)). */
+  toVisit: Set<string>;
+  /** Pages already crawled. */
+  visited: Set<string>;
+  /** Crawled pages that answered 2xx without redirecting. */
+  renderedPages: Set<string>;
+  /** Queued or crawled page -> clicks from the root, as discovered so far. */
+  depths: Map<string, number>;
+  /** Whether the crawl phase has finished (only link checks remain). */
+  crawlComplete: boolean;
+  /** Internal pages listed in the sitemap. */
+  sitemapPages: Set<string>;
+  /** URLs skipped because robots.txt disallows them. */
+  robotsBlocked: Set<string>;
+  /** Internal href -> kind and referrers. */
+  links: Map<string, DiscoveredLink>;
+  /** External href -> kind and referrers. */
+  externalLinks: Map<string, DiscoveredLink>;
+  /** http:// href referenced from https:// pages -> kind and referrers. */
+  insecureLinks: Map<string, DiscoveredLink>;
+  /** Target page -> fragment -> pages linking to it. */
+  fragmentRefs: Map<string, Map<string, Set<string>>>;
+  /** Crawled page -> the id/name anchors it contains. */
+  pageAnchors: Map<string, Set<string>>;
+  /** Crawled pages that answered 2xx with not-found content -> why. */
+  soft404s: Map<string, string>;
+  /** Crawled page -> its canonical, hreflang and robots metadata. */
+  pageSeo: Map<string, PageSeo>;
+  /** Crawled page -> JavaScript errors and failed requests seen on it. */
+  pageErrors: Map<string, PageError[]>;
+  /** Crawled page -> its links, for the link lint rules. */
+  pageLinks: Map<string, PageLink[]>;
+  /** Crawled page -> fingerprint of its main content. */
+  pageFingerprints: Map<string, ContentFingerprint>;
+  /** Completed internal link checks. */
+  results: LinkCheckResult[];
+  /** Completed external link checks. */
+  externalResults: LinkCheckResult[];
+}
+
+/** On-disk representation of a CrawlState. */
+interface CheckpointFile {
+  version: 1;
+  savedAt: string;
+  rootUrl: string;
+  toVisit: string[];
+  visited: string[];
+  renderedPages: string[];
+  depths: Array<[string, number]>;
+  crawlComplete: boolean;
+  sitemapPages: string[];
+  robotsBlocked: string[];
+  links: Array<[string, { kind: ResourceKind; referrers: LinkReferrer[] }]>;
+  externalLinks: Array<[string, { kind: ResourceKind; referrers: LinkReferrer[] }]>;
+  insecureLinks: Array<[string, { kind: ResourceKind; referrers: LinkReferrer[] }]>;
+  fragmentRefs: Array<[string, Array<[string, string[]]>]>;
+  pageAnchors: Array<[string, string[]]>;
+  soft404s: Array<[string, string]>;
+  pageSeo: Array<[string, PageSeo]>;
+  pageErrors: Array<[string, PageError[]]>;
+  pageLinks: Array<[string, PageLink[]]>;
+  pageFingerprints: Array<[string, ContentFingerprint]>;
+  results: LinkCheckResult[];
+  externalResults: LinkCheckResult[];
+}
+
+/**
+ * Create the empty state for a new crawl of `rootUrl`.
+ */
+export function createCrawlState(rootUrl: string): CrawlState {
+  return {
+    rootUrl,
+    toVisit: new Set(),
+    visited: new Set(),
+    renderedPages: new Set(),
+    depths: new Map(),
+    crawlComplete: false,
+    sitemapPages: new Set(),
+    robotsBlocked: new Set(),
+    links: new Map(),
+    externalLinks: new Map(),
+    insecureLinks: new Map(),
+    fragmentRefs: new Map(),
+    pageAnchors: new Map(),
+    soft404s: new Map(),
+    pageSeo: new Map(),
+    pageErrors: new Map(),
+    pageLinks: new Map(),
+    pageFingerprints: new Map(),
+    results: [],
+    externalResults: [],
+  };
+}
+
+function serializeLinks(
+  links: Map<string, DiscoveredLink>
+): CheckpointFile["links"] {
+  return Array.from(links.entries()).map(([href, link]) => [
+    href,
+    { kind: link.kind, referrers: Array.from(link.referrers.values()) },
+  ]);
+}
+
+function deserializeLinks(
+  entries: CheckpointFile["links"]
+): Map<string, DiscoveredLink> {
+  return new Map(
+    entries.map(([href, link]) => [
+      href,
+      {
+        kind: link.kind,
+        referrers: new Map(link.referrers.map((r) => [r.page, r])),
+      },
+    ])
+  );
+}
+
+/**
+ * Convert a crawl state to its JSON-serializable checkpoint form.
+ */
+export function serializeCrawlState(state: CrawlState): string {
+  const file: CheckpointFile = {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    rootUrl: state.rootUrl,
+    toVisit: Array.from(state.toVisit),
+    visited: Array.from(state.visited),
+    renderedPages: Array.from(state.renderedPages),
+    depths: Array.from(state.depths.entries()),
+    crawlComplete: state.crawlComplete,
+    sitemapPages: Array.from(state.sitemapPages),
+    robotsBlocked: Array.from(state.robotsBlocked),
+    links: serializeLinks(state.links),
+    externalLinks: serializeLinks(state.externalLinks),
+    insecureLinks: serializeLinks(state.insecureLinks),
+    fragmentRefs: Array.from(state.fragmentRefs.entries()).map(
+      ([target, fragments]) => [
+        target,
+        Array.from(fragments.entries()).map(([fragment, pages]) => [
+          fragment,
+          Array.from(pages),
+        ]),
+      ]
+    ),
+    pageAnchors: Array.from(state.pageAnchors.entries()).map(
+      ([page, anchors]) => [page, Array.from(anchors)]
+    ),
+    soft404s: Array.from(state.soft404s.entries()),
+    pageSeo: Array.from(state.pageSeo.entries()),
+    pageErrors: Array.from(state.pageErrors.entries()),
+    pageLinks: Array.from(state.pageLinks.entries()),
+    pageFingerprints: Array.from(state.pageFingerprints.entries()),
+    results: state.results,
+    externalResults: state.externalResults,
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Restore a crawl state from its serialized checkpoint form.
+ */
+export function deserializeCrawlState(json: string): CrawlState {
+  const file = JSON.parse(json) as CheckpointFile;
+  if (file.version !== 1) {
+    throw new Error(
+      `Unsupported checkpoint version: ${String(file.version)}`
+    );
+  }
+
+  return {
+    rootUrl: file.rootUrl,
+    toVisit: new Set(file.toVisit),
+    visited: new Set(file.visited),
+    renderedPages: new Set(file.renderedPages),
+    depths: new Map(file.depths),
+    crawlComplete: file.crawlComplete,
+    sitemapPages: new Set(file.sitemapPages),
+    robotsBlocked: new Set(file.robotsBlocked),
+    links: deserializeLinks(file.links),
+    externalLinks: deserializeLinks(file.externalLinks),
+    insecureLinks: deserializeLinks(file.insecureLinks),
+    fragmentRefs: new Map(
+      file.fragmentRefs.map(([target, fragments]) => [
+        target,
+        new Map(fragments.map(([fragment, pages]) => [fragment, new Set(pages)])),
+      ])
+    ),
+    pageAnchors: new Map(
+      file.pageAnchors.map(([page, anchors]) => [page, new Set(anchors)])
+    ),
+    soft404s: new Map(file.soft404s),
+    pageSeo: new Map(file.pageSeo),
+    pageErrors: new Map(file.pageErrors),
+    pageLinks: new Map(file.pageLinks),
+    pageFingerprints: new Map(file.pageFingerprints),
+    results: file.results,
+    externalResults: file.externalResults,
+  };
+}
+
+/**
+ * Write a checkpoint to disk.
+ *
+ * The file is written to a temporary path and renamed into place, so an
+ * interrupted write (e.g. Ctrl-C) never leaves a truncated state file.
+ */
+export function saveCheckpoint(filePath: string, state: CrawlState): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, serializeCrawlState(state), "utf-8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read a checkpoint from disk.
+ */
+export function loadCheckpoint(filePath: string): CrawlState {
+  return deserializeCrawlState(fs.readFileSync(filePath, "utf-8"));
+}
@@ -7,25 +7,54 @@
  *
  * Commands:
  *   scan <url>                 Crawl a site and find broken links
+ *   scan <dir>                 Crawl a built static site from disk
+ *   scan --resume <file>       Continue an interrupted scan from its checkpoint
  *   fix <url> --target <dir>   Scan, compute fixes, and generate redirect configs
  *   monitor <url>              Watch endpoints for 500-class errors
  */
 
+import * as fs from "node:fs";
 import { Command } from "commander";
 import { scanSite } from "./link-scanner.js";
+import { loadCheckpoint } from "./checkpoint.js";
+import { parseBasicAuth, parseHeader } from "./auth.js";
+import { DEFAULT_SOFT_404_OPTIONS } from "./soft-404.js";
+import { redirectsFromAudit } from "./redirect-audit.js";
+import { mixedContentFixes } from "./mixed-content.js";
+import { parseLintRule } from "./link-lint.js";
+import { DEFAULT_NEAR_DUPLICATE_DISTANCE } from "./duplicate-content.js";
+import {
+  DEFAULT_SPA_OPTIONS,
+  SPA_MODE,
+  type SpaOptions,
+  type WaitUntil,
+} from "./spa-discovery.js";
+import {
+  compareWithBaseline,
+  countNewRegressions,
+  loadBaseline,
+} from "./baseline.js";
 import { computeFixes, fixesToRedirects } from "./link-fixer.js";
 import {
   writeAllRedirectConfigs,
   writeRedirectConfig,
 } from "./redirect-generator.js";
 import { monitor } from "./health-monitor.js";
+import { createMonitorEvents, createScanEvents } from "./events.js";
+import { attachMonitorProgress, attachScanProgress } from "./progress.js";
 import {
   reportScan,
   reportFixes,
   reportMonitor,
   writeReportJson,
 } from "./reporter.js";
-import type { OutputFormat, RedirectFormat } from "./types.js";
+import { TRACKING_PARAMS } from "./url-normalizer.js";
+import type {
+  OutputFormat,
+  RedirectFormat,
+  RendererName,
+  TrailingSlashMode,
+} from "./types.js";
 
 const program = new Command();
 
@@ -43,7 +72,16 @@ program
 program
   .command("scan")
   .description("Crawl a site, find all internal links, and check for broken ones")
-  .argument("<url>", "Root URL to scan (e.g. https://example.com)")
+  .argument(
+    "[url]",
+    "Root URL (e.g. https://example.com) or built site directory to scan; optional with --resume"
+  )
+  .option("--dir <path>", "Scan a built static site directory instead of a server")
+  .option(
+    "--base-url <url>",
+    "Public URL of the site in --dir, so absolute links to it count as internal",
+    "http://localhost"
+  )
   .option(
     "--max-pages <number>",
     "Maximum number of pages to crawl",
@@ -51,27 +89,339 @@ program
   )
   .option("--timeout <ms>", "Request timeout in milliseconds", "15000")
   .option("--concurrency <number>", "Concurrent link checks", "5")
+  .option("--crawl-concurrency <number>", "Pages crawled at once", "4")
+  .option(
+    "--renderer <name>",
+    "Page renderer: browser (Playwright) or static (fetch + HTML parser, no JS)",
+    "browser"
+  )
+  .option(
+    "--spa",
+    "Single-page app mode: wait for network idle, scroll, and capture client-side routes"
+  )
+  .option(
+    "--wait-until <event>",
+    "When browser navigation is done: domcontentloaded, load or networkidle"
+  )
+  .option("--wait-for <selector>", "Wait for a selector before reading each page")
+  .option("--scroll", "Scroll each page to trigger lazily rendered content")
+  .option(
+    "--capture-routes",
+    "Record pushState routes and click router links and buttons to find them"
+  )
+  .option(
+    "--max-route-clicks <number>",
+    "Most elements clicked per page when capturing routes",
+    String(DEFAULT_SPA_OPTIONS.maxRouteClicks)
+  )
+  .option(
+    "--retries <number>",
+    "Retries for transient failures (429, 502-504, timeouts, resets)",
+    "2"
+  )
+  .option(
+    "--retry-delay <ms>",
+    "Base delay for exponential retry backoff",
+    "500"
+  )
+  .option("--no-head", "Always use GET instead of trying HEAD first")
   .option(
     "--exclude <patterns...>",
     "URL patterns to exclude (regex)"
   )
+  .option(
+    "--include <patterns...>",
+    "Only crawl URLs matching one of these patterns (regex)"
+  )
+  .option(
+    "--path-prefix <path>",
+    "Only crawl pages under this path (e.g. /docs/)"
+  )
+  .option(
+    "--max-depth <number>",
+    "Only crawl pages this many clicks from the root"
+  )
+  .option(
+    "--drop-param <names...>",
+    "Query parameters to drop when normalizing URLs (names or globs, e.g. utm_*)"
+  )
+  .option(
+    "--drop-tracking-params",
+    `Drop common tracking parameters (${TRACKING_PARAMS.join(", ")})`
+  )
+  .option("--sort-params", "Sort query parameters when normalizing URLs")
+  .option(
+    "--lowercase-path",
+    "Lowercase URL paths when normalizing (case-insensitive servers only)"
+  )
+  .option(
+    "--strip-index <files...>",
+    "Strip these index file names from URL paths (e.g. index.html)"
+  )
+  .option(
+    "--trailing-slash <mode>",
+    "Trailing slashes when normalizing URLs: strip, add or keep",
+    "strip"
+  )
+  .option(
+    "--internal-origin <origins...>",
+    "Other origins (https://docs.example.com) or hosts (*.example.com) that are part of the site"
+  )
+  .option(
+    "--sitemap-url <urls...>",
+    "Sitemap URLs to seed the crawl (default: <origin>/sitemap.xml)"
+  )
+  .option("--no-sitemap", "Do not seed the crawl from the sitemap")
+  .option(
+    "--ignore-robots",
+    "Ignore robots.txt rules and Crawl-delay (e.g. for staging)"
+  )
+  .option(
+    "--no-check-fragments",
+    "Do not check that #fragment links match an anchor on the target page"
+  )
+  .option(
+    "--no-check-resources",
+    "Only check <a href> links, not images, scripts, stylesheets, iframes, media or forms"
+  )
+  .option(
+    "--no-check-seo",
+    "Do not check canonical, hreflang and meta robots tags"
+  )
+  .option(
+    "--no-check-mixed-content",
+    "Do not flag http:// links and resources on https:// pages"
+  )
+  .option(
+    "--no-page-errors",
+    "Do not record JavaScript errors and failed requests on crawled pages"
+  )
+  .option(
+    "--no-check-duplicates",
+    "Do not fingerprint page content or report duplicate pages"
+  )
+  .option(
+    "--near-duplicate-distance <bits>",
+    "Simhash bits near-duplicate pages may differ in (0 = identical only)",
+    String(DEFAULT_NEAR_DUPLICATE_DISTANCE)
+  )
+  .option("--no-lint", "Do not run the link lint rules")
+  .option(
+    "--lint-rule <settings...>",
+    "Set lint rule severities, e.g. generic-text=off absolute-internal=warning"
+  )
+  .option(
+    "--evidence <dir>",
+    "Save screenshots of pages with broken links (link outlined) to a directory"
+  )
+  .option("--max-evidence <number>", "Most evidence screenshots per scan", "50")
+  .option("--no-soft-404", "Do not flag 200 pages that show not-found content")
+  .option(
+    "--soft-404-title <patterns...>",
+    "Regexes for not-found page titles (replace the defaults)"
+  )
+  .option(
+    "--soft-404-body <patterns...>",
+    "Regexes for not-found page text (replace the defaults)"
+  )
+  .option(
+    "--soft-404-min-text <chars>",
+    "Pages with less visible text are soft 404s (0 disables)",
+    "20"
+  )
+  .option("--check-external", "Also check links to other origins")
+  .option(
+    "--external-host-concurrency <number>",
+    "Concurrent external checks per host",
+    "2"
+  )
+  .option(
+    "--external-rate <number>",
+    "External requests per second per host (0 = unlimited)",
+    "2"
+  )
+  .option(
+    "--header <headers...>",
+    'Extra request headers for the site, e.g. "Authorization: Bearer ..."'
+  )
+  .option(
+    "--cookies <file>",
+    "Cookie file (cookies.txt or JSON) sent with page loads and link checks"
+  )
+  .option("--basic-auth <user:password>", "HTTP basic auth for the site")
+  .option(
+    "--storage-state <file>",
+    "Playwright storage state JSON (cookies and localStorage) to start from"
+  )
+  .option(
+    "--login-script <file>",
+    "JS module exporting login(page, context), run before the crawl"
+  )
+  .option(
+    "--checkpoint <file>",
+    "Periodically save crawl state to this file so the scan can be resumed"
+  )
+  .option(
+    "--checkpoint-interval <number>",
+    "Pages crawled (or links checked) between checkpoints",
+    "25"
+  )
+  .option(
+    "--resume <state-file>",
+    "Resume an interrupted scan from its checkpoint file"
+  )
+  .option(
+    "--baseline <report>",
+    "Previous JSON report; only findings not in it fail the scan"
+  )
+  .option(
+    "--previous <report>",
+    "Previous JSON report, to spot temporary redirects that stayed in place (default: --baseline)"
+  )
+  .option(
+    "--max-redirect-hops <number>",
+    "Flag redirect chains with more hops than this",
+    "1"
+  )
   .option(
     "--output <format>",
     "Output format: json, console, or both",
     "console"
   )
   .option("--output-file <path>", "Write JSON report to file")
-  .action(async (url: string, opts) => {
+  .action(async (urlArg: string | undefined, opts) => {
     try {
-      console.log(`\nScanning ${url}...\n`);
+      // A directory argument (or --dir) scans a built site from disk
+      const isDirectory = (p: string): boolean =>
+        fs.existsSync(p) && fs.statSync(p).isDirectory();
+      const rootDir: string | undefined =
+        opts.dir ?? (urlArg && isDirectory(urlArg) ? urlArg : undefined);
+      if (rootDir && !isDirectory(rootDir)) {
+        console.error(`Scan failed: ${rootDir} is not a directory`);
+        process.exit(2);
+      }
+
+      const url = rootDir
+        ? opts.baseUrl
+        : urlArg ?? (opts.resume ? loadCheckpoint(opts.resume).rootUrl : undefined);
+      if (!url) {
+        console.error("Scan failed: a URL is required unless --resume is given");
+        process.exit(2);
+      }
+
+      const validSlashModes: TrailingSlashMode[] = ["strip", "add", "keep"];
+      if (!validSlashModes.includes(opts.trailingSlash)) {
+        console.error(
+          `Unknown trailing slash mode: ${opts.trailingSlash}. Use strip, add or keep.`
+        );
+        process.exit(2);
+      }
+
+      const validRenderers: RendererName[] = ["browser", "static"];
+      if (!validRenderers.includes(opts.renderer)) {
+        console.error(`Unknown renderer: ${opts.renderer}. Use browser or static.`);
+        process.exit(2);
+      }
+
+      const validWaitEvents: WaitUntil[] = ["domcontentloaded", "load", "networkidle"];
+      if (opts.waitUntil !== undefined && !validWaitEvents.includes(opts.waitUntil)) {
+        console.error(
+          `Unknown wait event: ${opts.waitUntil}. Use domcontentloaded, load or networkidle.`
+        );
+        process.exit(2);
+      }
+      const spa: Partial<SpaOptions> = opts.spa ? SPA_MODE : {};
+
+      const target = rootDir ? `${rootDir} (as ${url})` : url;
+      console.log(`\n${opts.resume ? "Resuming scan of" : "Scanning"} ${target}...\n`);
+
+      // Load the baseline up front so a bad path fails before a long crawl
+      const baseline = opts.baseline ? loadBaseline(opts.baseline) : null;
+      const previous = opts.previous ? loadBaseline(opts.previous) : baseline;
+      const headers = Object.fromEntries(
+        ((opts.header ?? []) as string[]).map(parseHeader)
+      );
+
+      const events = createScanEvents();
+      attachScanProgress(events);
 
       const result = await scanSite(url, {
+        events,
         maxPages: parseInt(opts.maxPages, 10),
         timeout: parseInt(opts.timeout, 10),
         concurrency: parseInt(opts.concurrency, 10),
+        crawlConcurrency: parseInt(opts.crawlConcurrency, 10),
+        renderer: opts.renderer as RendererName,
+        waitUntil:
+          (opts.waitUntil as WaitUntil | undefined) ??
+          spa.waitUntil ??
+          DEFAULT_SPA_OPTIONS.waitUntil,
+        waitForSelector: opts.waitFor,
+        scrollPages: opts.scroll ?? spa.scroll ?? DEFAULT_SPA_OPTIONS.scroll,
+        captureRoutes:
+          opts.captureRoutes ?? spa.captureRoutes ?? DEFAULT_SPA_OPTIONS.captureRoutes,
+        maxRouteClicks: parseInt(opts.maxRouteClicks, 10),
+        rootDir,
         excludePatterns: opts.exclude ?? [],
+        includePatterns: opts.include ?? [],
+        pathPrefix: opts.pathPrefix,
+        maxDepth: opts.maxDepth !== undefined ? parseInt(opts.maxDepth, 10) : undefined,
+        internalOrigins: opts.internalOrigin ?? [],
+        normalization: {
+          dropParams: [
+            ...(opts.dropTrackingParams ? TRACKING_PARAMS : []),
+            ...(opts.dropParam ?? []),
+          ],
+          sortParams: opts.sortParams ?? false,
+          lowercasePath: opts.lowercasePath ?? false,
+          stripIndexFiles: opts.stripIndex ?? [],
+          trailingSlash: opts.trailingSlash as TrailingSlashMode,
+        },
+        useSitemap: opts.sitemap,
+        sitemapUrls: opts.sitemapUrl ?? [],
+        respectRobots: !opts.ignoreRobots,
+        checkFragments: opts.checkFragments,
+        checkResources: opts.checkResources,
+        checkSeo: opts.checkSeo,
+        checkMixedContent: opts.checkMixedContent,
+        capturePageErrors: opts.pageErrors,
+        checkDuplicates: opts.checkDuplicates,
+        nearDuplicateDistance: parseInt(opts.nearDuplicateDistance, 10),
+        lintLinks: opts.lint,
+        lintRules: Object.fromEntries(
+          ((opts.lintRule ?? []) as string[]).map(parseLintRule)
+        ),
+        evidenceDir: opts.evidence,
+        maxEvidenceScreenshots: parseInt(opts.maxEvidence, 10),
+        maxRedirectHops: parseInt(opts.maxRedirectHops, 10),
+        previousReport: previous ?? undefined,
+        detectSoft404s: opts.soft404,
+        soft404TitlePatterns:
+          opts.soft404Title ?? DEFAULT_SOFT_404_OPTIONS.titlePatterns,
+        soft404BodyPatterns: opts.soft404Body ?? DEFAULT_SOFT_404_OPTIONS.bodyPatterns,
+        soft404MinTextLength: parseInt(opts.soft404MinText, 10),
+        retries: parseInt(opts.retries, 10),
+        retryBaseDelayMs: parseInt(opts.retryDelay, 10),
+        headFirst: opts.head,
+        auth: {
+          headers,
+          cookieFile: opts.cookies,
+          basicAuth: opts.basicAuth ? parseBasicAuth(opts.basicAuth) : undefined,
+          storageState: opts.storageState,
+          loginScript: opts.loginScript,
+        },
+        checkExternal: Boolean(opts.checkExternal),
+        externalConcurrencyPerHost: parseInt(opts.externalHostConcurrency, 10),
+        externalRequestsPerSecond: parseFloat(opts.externalRate),
+        checkpointFile: opts.checkpoint,
+        checkpointInterval: parseInt(opts.checkpointInterval, 10),
+        resumeFrom: opts.resume,
       });
 
+      if (baseline) {
+        result.baselineComparison = compareWithBaseline(result, baseline);
+      }
+
       reportScan(result, opts.output as OutputFormat);
 
       if (opts.outputFile) {
@@ -79,8 +429,21 @@ program
         console.log(`\nReport written to ${opts.outputFile}`);
       }
 
+      // Against a baseline, only new regressions fail the scan
+      if (result.baselineComparison) {
+        if (countNewRegressions(result.baselineComparison) > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
       // Exit with code 1 if there are broken links
-      if (result.brokenLinks.length > 0 || result.serverErrors.length > 0) {
+      if (
+        result.brokenLinks.length > 0 ||
+        result.soft404s.length > 0 ||
+        result.brokenFragments.length > 0 ||
+        result.serverErrors.length > 0
+      ) {
         process.exit(1);
       }
     } catch (err) {
@@ -120,6 +483,15 @@ program
   .option("--max-pages <number>", "Maximum pages to crawl", "100")
   .option("--timeout <ms>", "Request timeout in milliseconds", "15000")
   .option("--concurrency <number>", "Concurrent link checks", "5")
+  .option(
+    "--previous <report>",
+    "Earlier JSON scan report; pages whose content moved are matched to their new URL"
+  )
+  .option(
+    "--near-duplicate-distance <bits>",
+    "Simhash bits a moved page's content may differ in (0 = identical only)",
+    String(DEFAULT_NEAR_DUPLICATE_DISTANCE)
+  )
   .option(
     "--output <format>",
     "Output format: json, console, or both",
@@ -128,12 +500,21 @@ program
   .option("--output-file <path>", "Write JSON report to file")
   .action(async (url: string, opts) => {
     try {
+      // Load the earlier report up front so a bad path fails before a long crawl
+      const previous = opts.previous ? loadBaseline(opts.previous) : null;
+
       console.log(`\nScanning ${url} for broken links...\n`);
 
+      const events = createScanEvents();
+      attachScanProgress(events);
+
+      const nearDuplicateDistance = parseInt(opts.nearDuplicateDistance, 10);
       const scanResult = await scanSite(url, {
+        events,
         maxPages: parseInt(opts.maxPages, 10),
         timeout: parseInt(opts.timeout, 10),
         concurrency: parseInt(opts.concurrency, 10),
+        nearDuplicateDistance,
       });
 
       // Gather known-good URLs from the scan
@@ -164,6 +545,7 @@ program
       const allSourcePages = new Set<string>();
       for (const link of [
         ...scanResult.brokenLinks,
+        ...scanResult.soft404s,
         ...scanResult.redirectLinks,
         ...scanResult.serverErrors,
         ...scanResult.connectionErrors,
@@ -171,21 +553,44 @@ program
         if (link.sourcePage) {
           allSourcePages.add(link.sourcePage);
         }
+        for (const ref of link.referrers) {
+          allSourcePages.add(ref.page);
+        }
       }
 
-      const goodUrls = Array.from(allSourcePages);
+      // Soft 404s are fixed like real 404s, and are never fix targets
+      const soft404Urls = new Set(scanResult.soft404s.map((l) => l.href));
+      const goodUrls = Array.from(allSourcePages).filter(
+        (url) => !soft404Urls.has(url)
+      );
 
       // Compute fixes
       const minConfidence = parseFloat(opts.minConfidence);
-      const fixes = computeFixes(
-        scanResult.brokenLinks,
-        goodUrls,
-        scanResult.redirectLinks,
-        { minConfidence }
-      );
+      const fixes = [
+        ...computeFixes(
+          [...scanResult.brokenLinks, ...scanResult.soft404s],
+          goodUrls,
+          scanResult.redirectLinks.filter((l) => !soft404Urls.has(l.href)),
+          {
+            minConfidence,
+            previousPages: previous?.crawledPages,
+            currentPages: scanResult.crawledPages.filter((page) => !soft404Urls.has(page.url)),
+            brokenFragments: scanResult.brokenFragments,
+            nearDuplicateDistance,
+          }
+        ),
+        // Insecure references with a working https version are rewritten
+        ...mixedContentFixes(scanResult.mixedContent),
+      ];
 
-      // Generate redirect entries
+      // Generate redirect entries, plus single-hop rules for audited chains
       const redirects = fixesToRedirects(fixes, minConfidence);
+      const fixedPaths = new Set(redirects.map((r) => r.from));
+      for (const rule of redirectsFromAudit(scanResult.redirectAudit)) {
+        if (!fixedPaths.has(rule.from)) {
+          redirects.push(rule);
+        }
+      }
 
       // Write redirect configs
       const format = opts.format as string;
@@ -280,7 +685,11 @@ program
         `  Interval: ${opts.interval}ms | Rounds: ${isIndefinite ? "indefinite" : rounds}\n`
       );
 
+      const events = createMonitorEvents();
+      attachMonitorProgress(events);
+
       const report = await monitor(url, {
+        events,
         endpoints: opts.endpoints as string[],
         intervalMs: parseInt(opts.interval, 10),
         timeout: parseInt(opts.timeout, 10),
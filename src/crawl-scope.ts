@@ -0,0 +1,139 @@
+/**
+ * crawl-scope.ts
+ *
+ * Decides which URLs belong to the site (and are checked as internal
+ * links) and which of those the crawl may visit: include and exclude
+ * patterns, a path prefix for scanning one section of a site, and extra
+ * origins or subdomains that count as part of the site. Also computes the
+ * click depth of crawled pages from the root.
+ */
+
+import type { DiscoveredLink } from "./checkpoint.js";
+import type { CrawledPage } from "./types.js";
+
+/** Settings for the crawl scope. */
+export interface ScopeOptions {
+  /** Origin of the root URL. */
+  baseOrigin: string;
+  /**
+   * Further origins treated as internal. Entries with a scheme are exact
+   * origins ("https://docs.example.com"); entries without one match a
+   * hostname on any scheme, and "*.example.com" matches every subdomain.
+   */
+  internalOrigins: string[];
+  /** Regexes; when given, only matching URLs are crawled. */
+  includePatterns: string[];
+  /** Regexes; matching URLs are not crawled. */
+  excludePatterns: string[];
+  /** Only URLs whose path starts with this are crawled (e.g. "/docs/"). */
+  pathPrefix: string | null;
+}
+
+/** Predicates deciding what belongs to a scan. */
+export interface CrawlScope {
+  /** Whether a URL is part of the site, so links to it are internal. */
+  isInternal(url: string): boolean;
+  /** Whether an internal URL may be crawled. */
+  isInScope(url: string): boolean;
+}
+
+/** Whether `hostname` matches a hostname pattern like "*.example.com". */
+function matchesHost(hostname: string, pattern: string): boolean {
+  const host = pattern.toLowerCase();
+  if (host.startsWith("*.")) {
+    return hostname.endsWith(host.slice(1));
+  }
+  return hostname === host;
+}
+
+/**
+ * Whether a URL path is within `prefix`. "/docs/" also admits "/docs",
+ * which is how the section index is usually linked.
+ */
+export function isUnderPathPrefix(pathname: string, prefix: string): boolean {
+  const withSlash = prefix.endsWith("/") ? prefix : `${prefix}/`;
+  return pathname.startsWith(withSlash) || pathname === withSlash.slice(0, -1);
+}
+
+/**
+ * Build the scope predicates for a scan. Patterns are validated here, so a
+ * bad regex fails the scan before any request is made.
+ */
+export function createCrawlScope(options: ScopeOptions): CrawlScope {
+  const include = options.includePatterns.map((p) => new RegExp(p));
+  const exclude = options.excludePatterns.map((p) => new RegExp(p));
+  const exactOrigins = new Set([options.baseOrigin]);
+  const hostPatterns: string[] = [];
+  for (const entry of options.internalOrigins) {
+    if (entry.includes("://")) {
+      exactOrigins.add(new URL(entry).origin);
+    } else {
+      hostPatterns.push(entry);
+    }
+  }
+
+  const isInternal = (url: string): boolean => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    if (exactOrigins.has(parsed.origin)) return true;
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
+    return hostPatterns.some((p) => matchesHost(parsed.hostname, p));
+  };
+
+  return {
+    isInternal,
+    isInScope(url: string): boolean {
+      if (!isInternal(url)) return false;
+      if (exclude.some((r) => r.test(url))) return false;
+      if (include.length > 0 && !include.some((r) => r.test(url))) return false;
+      if (options.pathPrefix && !isUnderPathPrefix(new URL(url).pathname, options.pathPrefix)) {
+        return false;
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * The click depth of each crawled page: the fewest links to follow from the
+ * root to reach it, through crawled pages. Pages only reachable through the
+ * sitemap have a null depth.
+ */
+export function computePageDepths(
+  rootUrl: string,
+  crawled: Set<string>,
+  links: Map<string, DiscoveredLink>
+): CrawledPage[] {
+  // Crawled page -> pages it links to
+  const outgoing = new Map<string, string[]>();
+  for (const [href, link] of links) {
+    if (link.kind !== "link") continue;
+    for (const page of link.referrers.keys()) {
+      if (!outgoing.has(page)) {
+        outgoing.set(page, []);
+      }
+      outgoing.get(page)!.push(href);
+    }
+  }
+
+  const depths = new Map<string, number>();
+  if (crawled.has(rootUrl)) {
+    depths.set(rootUrl, 0);
+  }
+  const queue = depths.size > 0 ? [rootUrl] : [];
+  for (let i = 0; i < queue.length; i++) {
+    const page = queue[i]!;
+    const depth = depths.get(page)!;
+    for (const target of outgoing.get(page) ?? []) {
+      if (depths.has(target) || !crawled.has(target)) continue;
+      depths.set(target, depth + 1);
+      queue.push(target);
+    }
+  }
+
+  return Array.from(crawled).map((url) => ({ url, depth: depths.get(url) ?? null }));
+}
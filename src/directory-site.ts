@@ -0,0 +1,164 @@
+/**
+ * directory-site.ts
+ *
+ * Serves a built static site (e.g. a Next.js export or an Astro build)
+ * straight from disk, so it can be scanned before it is deployed. URLs are
+ * mapped to files the way common static hosts do it, for fetch checks and
+ * for pages opened in the browser.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { BrowserContext } from "playwright";
+
+/** Content types by file extension; anything else is application/octet-stream. */
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".htm": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".pdf": "application/pdf",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mp3": "audio/mpeg",
+};
+
+/**
+ * Guess the content type of a file from its extension.
+ */
+export function contentTypeFor(filePath: string): string {
+  return (
+    CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream"
+  );
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a URL path to the file that serves it, or null if there is none:
+ *
+ *   /            -> index.html
+ *   /foo         -> foo, foo.html, or foo/index.html
+ *   /foo/        -> foo/index.html
+ *   /foo/a.html  -> foo/a.html
+ *
+ * Paths that would escape the root directory never match.
+ */
+export function resolveStaticFile(rootDir: string, urlPath: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    return null;
+  }
+
+  const root = path.resolve(rootDir);
+  const target = path.resolve(root, `.${path.posix.normalize(`/${decoded}`)}`);
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    return null;
+  }
+
+  const candidates = decoded.endsWith("/")
+    ? [path.join(target, "index.html")]
+    : [target, `${target}.html`, path.join(target, "index.html")];
+  return candidates.find(isFile) ?? null;
+}
+
+/**
+ * The file that serves a page URL, relative to the current directory for
+ * display, or null if no file serves it.
+ */
+export function fileForPage(rootDir: string, pageUrl: string): string | null {
+  const file = resolveStaticFile(rootDir, new URL(pageUrl).pathname);
+  return file ? path.relative(process.cwd(), file) || file : null;
+}
+
+/**
+ * Create a fetch function that answers requests for `origin` from files in
+ * `rootDir` and passes every other request to `fallback`. Missing files get
+ * a 404, with the site's own 404.html as the body if it has one. A directory
+ * requested without its trailing slash gets a 301 to the slashed URL, as
+ * static hosts answer it, so relative links on its index page resolve
+ * against the directory.
+ */
+export function createDirectoryFetch(
+  rootDir: string,
+  origin: string,
+  fallback: typeof fetch = fetch
+): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    if (url.origin !== origin) {
+      return fallback(input, init);
+    }
+
+    const isHead = (init?.method ?? "GET").toUpperCase() === "HEAD";
+    const file = resolveStaticFile(rootDir, url.pathname);
+    const isDirectoryIndex =
+      file !== null &&
+      !url.pathname.endsWith("/") &&
+      resolveStaticFile(rootDir, `${url.pathname}/`) === file;
+    if (isDirectoryIndex) {
+      return new Response(null, {
+        status: 301,
+        headers: { location: `${url.origin}${url.pathname}/${url.search}` },
+      });
+    }
+
+    const notFoundPage = path.join(rootDir, "404.html");
+    const servedFile = file ?? (isFile(notFoundPage) ? notFoundPage : null);
+
+    const body = servedFile && !isHead ? await fs.promises.readFile(servedFile) : null;
+    return new Response(body, {
+      status: file ? 200 : 404,
+      headers: {
+        "content-type": servedFile ? contentTypeFor(servedFile) : "text/plain",
+      },
+    });
+  };
+}
+
+/**
+ * Answer a browser context's requests for `origin` from files in `rootDir`,
+ * so pages of a built site can be opened in the browser without a server.
+ */
+export async function serveDirectoryInBrowser(
+  context: BrowserContext,
+  rootDir: string,
+  origin: string
+): Promise<void> {
+  const directoryFetch = createDirectoryFetch(rootDir, origin);
+  await context.route(
+    (url) => url.origin === origin,
+    async (route) => {
+      const response = await directoryFetch(route.request().url());
+      await route.fulfill({
+        status: response.status,
+        headers: Object.fromEntries(response.headers),
+        body: Buffer.from(await response.arrayBuffer()),
+      });
+    }
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * duplicate-content.ts
+ *
+ * Fingerprints the main content of crawled pages and finds pages that
+ * serve the same content under different URLs, e.g. a CMS page reachable
+ * through several category paths. Identical content shares a text hash;
+ * near-identical content has simhashes only a few bits apart. Fingerprints
+ * are kept in the report, so a later run can tell where a page moved.
+ */
+
+import { createHash } from "node:crypto";
+import { parse } from "node-html-parser";
+import { normalizeText } from "./soft-404.js";
+import type { ContentFingerprint, DuplicateContentGroup } from "./types.js";
+
+/** Elements that never hold visible content. */
+const HIDDEN_SELECTOR = "script, style, noscript, template";
+
+/** Page chrome that repeats across pages, dropped when there is no main element. */
+const CHROME_SELECTOR =
+  'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]';
+
+/** Elements holding a page's main content, in order of preference. */
+const MAIN_SELECTORS = ["main", '[role="main"]', "article"];
+
+/** Pages with fewer words are not fingerprinted: too little to tell them apart. */
+export const MIN_FINGERPRINT_WORDS = 20;
+
+/** Simhash bits that may differ between near-duplicates, by default. */
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 3;
+
+/** Bits in a simhash. */
+const SIMHASH_BITS = 64;
+
+/**
+ * The visible text of a page's main content: its <main> (or role=main, or
+ * <article>) element, or else the body without navigation, header, footer
+ * and sidebars.
+ */
+export function extractMainText(html: string): string {
+  const root = parse(html, { comment: false });
+  for (const el of root.querySelectorAll(HIDDEN_SELECTOR)) {
+    el.remove();
+  }
+
+  for (const selector of MAIN_SELECTORS) {
+    const main = root.querySelector(selector);
+    if (main) return normalizeText(main.structuredText);
+  }
+
+  for (const el of root.querySelectorAll(CHROME_SELECTOR)) {
+    el.remove();
+  }
+  return normalizeText((root.querySelector("body") ?? root).structuredText);
+}
+
+/** The 64-bit simhash of a list of features, as 16 hex digits. */
+function simhash(features: string[]): string {
+  const weights = new Array<number>(SIMHASH_BITS).fill(0);
+  for (const feature of features) {
+    const digest = createHash("md5").update(feature).digest();
+    for (let bit = 0; bit < SIMHASH_BITS; bit++) {
+      const set = (digest[bit >> 3]! >> (7 - (bit & 7))) & 1;
+      weights[bit]! += set ? 1 : -1;
+    }
+  }
+
+  let hex = "";
+  for (let nibble = 0; nibble < SIMHASH_BITS; nibble += 4) {
+    let value = 0;
+    for (let bit = nibble; bit < nibble + 4; bit++) {
+      value = (value << 1) | (weights[bit]! > 0 ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Fingerprint a page's main content. Case, punctuation and whitespace are
+ * ignored. Returns null for pages with fewer than MIN_FINGERPRINT_WORDS
+ * words, such as empty app shells and redirect stubs.
+ */
+export function fingerprintPage(html: string): ContentFingerprint | null {
+  const words = extractMainText(html)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  if (words.length < MIN_FINGERPRINT_WORDS) return null;
+
+  // Word trigrams, so reordered paragraphs still differ
+  const trigrams: string[] = [];
+  for (let i = 0; i + 3 <= words.length; i++) {
+    trigrams.push(words.slice(i, i + 3).join(" "));
+  }
+
+  return {
+    hash: createHash("sha256").update(words.join(" ")).digest("hex"),
+    simhash: simhash(trigrams),
+    words: words.length,
+  };
+}
+
+/** Number of set bits in a 32-bit integer. */
+function popcount(n: number): number {
+  let v = n - ((n >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/** A simhash as two 32-bit halves. */
+function simhashHalves(hex: string): [number, number] {
+  return [parseInt(hex.slice(0, 8), 16), parseInt(hex.slice(8, 16), 16)];
+}
+
+/**
+ * Number of bits in which two fingerprints' simhashes differ (0-64);
+ * 0 for identical content.
+ */
+export function simhashDistance(a: ContentFingerprint, b: ContentFingerprint): number {
+  if (a.hash === b.hash) return 0;
+  const [aHigh, aLow] = simhashHalves(a.simhash);
+  const [bHigh, bLow] = simhashHalves(b.simhash);
+  return popcount(aHigh ^ bHigh) + popcount(aLow ^ bLow);
+}
+
+/**
+ * Group crawled pages whose content is identical, or whose simhashes
+ * differ in at most `maxDistance` bits (0 finds identical content only).
+ *
+ * `pages` maps each page to its fingerprint, in crawl order. Pages whose
+ * canonical names another URL already declare themselves duplicates and
+ * are left out.
+ */
+export function findDuplicateContent(
+  pages: Map<string, ContentFingerprint>,
+  canonicalOf: (page: string) => string | null,
+  maxDistance: number = DEFAULT_NEAR_DUPLICATE_DISTANCE,
+  normalize: (url: string) => string = (url) => url
+): DuplicateContentGroup[] {
+  const entries = Array.from(pages.entries()).filter(([page]) => {
+    const canonical = canonicalOf(page);
+    return canonical === null || normalize(canonical) === page;
+  });
+  const halves = entries.map(([, fingerprint]) => simhashHalves(fingerprint.simhash));
+
+  // Union-find over pages, joining each close pair
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const close =
+        entries[i]![1].hash === entries[j]![1].hash ||
+        popcount(halves[i]![0] ^ halves[j]![0]) + popcount(halves[i]![1] ^ halves[j]![1]) <=
+          maxDistance;
+      if (close) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) {
+      clusters.set(root, []);
+    }
+    clusters.get(root)!.push(i);
+  });
+
+  const groups: DuplicateContentGroup[] = [];
+  for (const members of clusters.values()) {
+    if (members.length < 2) continue;
+
+    let farthest = 0;
+    for (let a = 0; a < members.length; a++) {
+      for (let b = a + 1; b < members.length; b++) {
+        const distance = simhashDistance(entries[members[a]!]![1], entries[members[b]!]![1]);
+        farthest = Math.max(farthest, distance);
+      }
+    }
+
+    const first = entries[members[0]!]![1];
+    const identical = members.every((i) => entries[i]![1].hash === first.hash);
+    groups.push({
+      type: identical ? "identical" : "near-duplicate",
+      severity: identical ? "warning" : "info",
+      pages: members.map((i) => entries[i]![0]),
+      similarity: 1 - farthest / SIMHASH_BITS,
+    });
+  }
+  return groups;
+}
@@ -0,0 +1,117 @@
+/**
+ * events.ts
+ *
+ * Typed progress events for scans and the health monitor. Pass an emitter
+ * from createScanEvents() or createMonitorEvents() in the options and
+ * listen for the events below to stream progress and findings as they
+ * happen; the CLI renders its progress output from the same events.
+ */
+
+import { EventEmitter } from "node:events";
+import type {
+  HealthCheckResult,
+  LinkCheckResult,
+  MonitorReport,
+  RemediationAction,
+  ScanResult,
+} from "./types.js";
+
+/** The link check phases of a scan. */
+export type CheckPhase = "links" | "external" | "https-upgrades" | "canonicals";
+
+/** Payloads of scan events, by event name. */
+export interface ScanEventMap {
+  /** The scan began (or resumed from a checkpoint). */
+  "scan-started": [
+    {
+      rootUrl: string;
+      /** Whether the scan continues from a checkpoint. */
+      resumed: boolean;
+      /** Pages crawled before the resume. */
+      pagesCrawled: number;
+      /** Pages waiting to be crawled. */
+      queued: number;
+      /** Links checked before the resume. */
+      linksChecked: number;
+    },
+  ];
+  /** The sitemap was read; its pages were queued. */
+  "sitemap-loaded": [{ pages: number }];
+  /** The login script is about to run. */
+  "login-started": [{ script: string }];
+  /** A URL that cannot exist answered with a success status, so soft 404s are compared to it. */
+  "soft-404-probe": [{ status: number | null }];
+  /** A page is about to be rendered. */
+  "page-started": [{ url: string; depth: number | null }];
+  /** A page was rendered and its links recorded. */
+  "page-crawled": [
+    {
+      url: string;
+      depth: number | null;
+      /** HTTP status of the page, null if unknown. */
+      status: number | null;
+      /** References found on the page. */
+      references: number;
+      /** Pages crawled so far. */
+      pagesCrawled: number;
+      /** Pages waiting to be crawled. */
+      queued: number;
+    },
+  ];
+  /** A page could not be rendered. */
+  "page-failed": [{ url: string; error: string }];
+  /** A link check phase began. */
+  "checks-started": [{ phase: CheckPhase; total: number }];
+  /** A link (or external link) was checked. */
+  "link-checked": [
+    {
+      phase: CheckPhase;
+      result: LinkCheckResult;
+      /** Checks done in this phase so far. */
+      checked: number;
+      total: number;
+    },
+  ];
+  /** A checked link is broken: an internal 404, or a failing external link. */
+  "broken-link-found": [{ result: LinkCheckResult; external: boolean }];
+  /** A URL was checked in a phase that only needs its status. */
+  "url-checked": [{ phase: CheckPhase; url: string; checked: number; total: number }];
+  /** Evidence is being captured for broken links. */
+  "evidence-started": [{ links: number }];
+  /** Evidence could not be captured (e.g. the browser failed to start); the scan goes on. */
+  "evidence-failed": [{ error: string }];
+  /** The scan finished; the result is also returned by scanSite. */
+  "scan-complete": [{ result: ScanResult }];
+}
+
+/** Payloads of health monitor events, by event name. */
+export interface MonitorEventMap {
+  /** A check round began. */
+  "round-started": [{ round: number; endpoints: string[] }];
+  /** An endpoint was checked; failures come with a recommendation. */
+  "endpoint-checked": [
+    { round: number; result: HealthCheckResult; remediation: RemediationAction | null },
+  ];
+  /** A check round finished. */
+  "round-complete": [{ round: number; report: MonitorReport }];
+}
+
+/** An emitter of scan events. */
+export type ScanEvents = EventEmitter<ScanEventMap>;
+
+/** An emitter of health monitor events. */
+export type MonitorEvents = EventEmitter<MonitorEventMap>;
+
+/**
+ * Create an emitter to pass as the `events` option of scanSite.
+ */
+export function createScanEvents(): ScanEvents {
+  return new EventEmitter<ScanEventMap>();
+}
+
+/**
+ * Create an emitter to pass as the `events` option of monitor.
+ */
+export function createMonitorEvents(): MonitorEvents {
+  return new EventEmitter<MonitorEventMap>();
+}
@@ -0,0 +1,165 @@
+/**
+ * evidence.ts
+ *
+ * Shows where broken links sit on their pages, for editors who cannot
+ * find an href in the page source: each referring page is opened in the
+ * browser, the offending element is outlined in red and screenshotted,
+ * and the HTML around it is kept as a trimmed snippet.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { BrowserContext, Page } from "playwright";
+import type { WaitUntil } from "./spa-discovery.js";
+import type { LinkCheckResult, LinkEvidence } from "./types.js";
+
+/** Settings for capturing evidence. */
+export interface EvidenceOptions {
+  /** Directory the screenshots are written to; created if missing. */
+  dir: string;
+  /** Page load timeout in milliseconds. */
+  timeout: number;
+  /** When navigation counts as finished. */
+  waitUntil: WaitUntil;
+  /** Most screenshots taken in total; snippets are kept beyond it. */
+  maxScreenshots: number;
+  /** Called after each page loads, e.g. to let a client-side app render. */
+  settle?: (page: Page) => Promise<void>;
+}
+
+/** Referring pages captured per broken link. */
+const PAGES_PER_LINK = 3;
+
+/** Longest snippet kept, in characters. */
+const MAX_SNIPPET_LENGTH = 400;
+
+/** How the offending element is highlighted. */
+const OUTLINE = "4px solid #e00";
+
+/**
+ * Trim the HTML around an element to at most `maxLength` characters,
+ * keeping the element itself and as much of its surroundings as fits.
+ * Whitespace is collapsed and cuts are marked with "…".
+ */
+export function trimSnippet(
+  contextHtml: string,
+  elementHtml: string,
+  maxLength: number = MAX_SNIPPET_LENGTH
+): string {
+  const collapse = (html: string): string => html.replace(/\s+/g, " ").trim();
+  const context = collapse(contextHtml);
+  const element = collapse(elementHtml);
+
+  if (context.length <= maxLength) return context;
+  if (element.length >= maxLength) return `${element.slice(0, maxLength)}…`;
+
+  const at = context.indexOf(element);
+  if (at < 0) return element;
+  const margin = Math.floor((maxLength - element.length) / 2);
+  const start = Math.max(0, Math.min(at - margin, context.length - maxLength));
+  const end = start + maxLength;
+  return `${start > 0 ? "…" : ""}${context.slice(start, end)}${end < context.length ? "…" : ""}`;
+}
+
+/** A file name fragment for a page URL: "docs-setup" for /docs/setup. */
+function pageSlug(pageUrl: string): string {
+  const slug = new URL(pageUrl).pathname
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  return slug || "index";
+}
+
+/**
+ * Open each page that refers to a broken link and capture evidence of
+ * every such link on it. Pages are visited once, in the order their
+ * links are given; elements that are not on the page (e.g. rendered
+ * only after user input) get evidence without a screenshot or snippet.
+ */
+export async function captureEvidence(
+  context: BrowserContext,
+  links: LinkCheckResult[],
+  options: EvidenceOptions
+): Promise<Map<LinkCheckResult, LinkEvidence[]>> {
+  // Referring page -> the links to capture on it
+  const byPage = new Map<string, Array<{ link: LinkCheckResult; selector: string }>>();
+  for (const link of links) {
+    for (const referrer of link.referrers.slice(0, PAGES_PER_LINK)) {
+      if (!byPage.has(referrer.page)) {
+        byPage.set(referrer.page, []);
+      }
+      byPage.get(referrer.page)!.push({ link, selector: referrer.selector });
+    }
+  }
+
+  const evidence = new Map<LinkCheckResult, LinkEvidence[]>();
+  const record = (link: LinkCheckResult, item: LinkEvidence): void => {
+    if (!evidence.has(link)) {
+      evidence.set(link, []);
+    }
+    evidence.get(link)!.push(item);
+  };
+
+  fs.mkdirSync(options.dir, { recursive: true });
+  let screenshots = 0;
+
+  for (const [pageUrl, items] of byPage) {
+    const page = await context.newPage();
+    try {
+      await page.goto(pageUrl, { timeout: options.timeout, waitUntil: options.waitUntil });
+      await options.settle?.(page);
+
+      for (const { link, selector } of items) {
+        const element = page.locator(selector).first();
+        if ((await element.count().catch(() => 0)) === 0) {
+          record(link, { page: pageUrl, selector, screenshot: null, snippet: null });
+          continue;
+        }
+
+        // Elements are untyped here since our TypeScript config has no DOM lib
+        const html = await element.evaluate((el) => ({
+          element: el.outerHTML,
+          context: el.parentElement?.outerHTML ?? el.outerHTML,
+        }));
+
+        let screenshot: string | null = null;
+        if (screenshots < options.maxScreenshots) {
+          const file = path.join(
+            options.dir,
+            `${String(screenshots + 1).padStart(3, "0")}-${pageSlug(pageUrl)}.png`
+          );
+          const previous = await element.evaluate((el, outline) => {
+            const before = {
+              outline: el.style.outline,
+              outlineOffset: el.style.outlineOffset,
+            };
+            el.style.outline = outline;
+            el.style.outlineOffset = "2px";
+            return before;
+          }, OUTLINE);
+          await element.scrollIntoViewIfNeeded({ timeout: options.timeout }).catch(() => {});
+          await page.screenshot({ path: file });
+          await element.evaluate((el, before) => {
+            el.style.outline = before.outline;
+            el.style.outlineOffset = before.outlineOffset;
+          }, previous);
+          screenshots++;
+          screenshot = file;
+        }
+
+        record(link, {
+          page: pageUrl,
+          selector,
+          screenshot,
+          snippet: trimSnippet(html.context, html.element),
+        });
+      }
+    } catch {
+      // A page that no longer loads keeps whatever evidence was captured
+    } finally {
+      await page.close();
+    }
+  }
+
+  return evidence;
+}
@@ -12,6 +12,7 @@ import type {
   MonitorReport,
   RemediationAction,
 } from "./types.js";
+import type { MonitorEvents } from "./events.js";
 
 /** Options for the health monitor. */
 export interface MonitorOptions {
@@ -25,9 +26,11 @@ export interface MonitorOptions {
   endpoints?: string[];
   /** Callback invoked after each check round. */
   onRound?: (report: MonitorReport) => void;
+  /** Receives progress events as each round runs. */
+  events?: MonitorEvents;
 }
 
-const DEFAULT_OPTIONS: Required<Omit<MonitorOptions, "onRound">> = {
+const DEFAULT_OPTIONS: Required<Omit<MonitorOptions, "onRound" | "events">> = {
   intervalMs: 30000,
   timeout: 10000,
   rounds: Infinity,
@@ -308,9 +311,7 @@ export async function monitor(
       await new Promise((resolve) => setTimeout(resolve, opts.intervalMs));
     }
 
-    process.stderr.write(
-      `\n  [Round ${round + 1}] Checking ${opts.endpoints.length} endpoint(s)...\n`
-    );
+    opts.events?.emit("round-started", { round: round + 1, endpoints: opts.endpoints });
 
     const roundResults: HealthCheckResult[] = [];
 
@@ -319,20 +320,14 @@ export async function monitor(
       const result = await checkEndpoint(url, opts.timeout);
       roundResults.push(result);
 
-      const statusDisplay = result.statusCode ?? "ERR";
-      const icon = result.healthy ? "OK" : "FAIL";
-      process.stderr.write(
-        `    [${icon}] ${url} -> ${statusDisplay} (${result.responseTimeMs}ms)\n`
-      );
-
-      if (!result.healthy && result.errorClass) {
-        const remediation = recommendRemediation(result.errorClass);
-        process.stderr.write(
-          `    Classification: ${result.errorClass}\n` +
-            `    Recommendation: ${remediation.description}\n`
-        );
+      const remediation =
+        !result.healthy && result.errorClass
+          ? recommendRemediation(result.errorClass)
+          : null;
+      if (remediation) {
         allRemediations.push(remediation);
       }
+      opts.events?.emit("endpoint-checked", { round: round + 1, result, remediation });
     }
 
     allResults.push(...roundResults);
@@ -345,6 +340,7 @@ export async function monitor(
       timestamp: new Date().toISOString(),
     };
 
+    opts.events?.emit("round-complete", { round: round + 1, report: roundReport });
     if (opts.onRound) {
       opts.onRound(roundReport);
     }
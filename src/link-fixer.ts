@@ -6,7 +6,15 @@
  * and path similarity heuristics. Also generates redirect map entries.
  */
 
-import type { LinkCheckResult, LinkFix, RedirectEntry } from "./types.js";
+import { DEFAULT_NEAR_DUPLICATE_DISTANCE, simhashDistance } from "./duplicate-content.js";
+import type {
+  BrokenFragment,
+  ContentFingerprint,
+  CrawledPage,
+  LinkCheckResult,
+  LinkFix,
+  RedirectEntry,
+} from "./types.js";
 
 /**
  * Compute the Levenshtein distance between two strings.
@@ -88,6 +96,37 @@ function pathSimilarity(urlA: string, urlB: string): number {
   return segmentSimilarity * 0.6 + editSimilarity * 0.4;
 }
 
+/**
+ * Compute similarity between two anchor tokens (0 to 1). Tokens less than
+ * half alike score 0, so only near matches such as "team" and "teams" or
+ * "configure" and "configuring" earn partial credit.
+ */
+function anchorTokenSimilarity(a: string, b: string): number {
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= 0.5 ? similarity : 0;
+}
+
+/**
+ * Compute similarity between two anchor ids (0 to 1, where 1 = identical).
+ */
+function anchorSimilarity(a: string, b: string): number {
+  const tokensA = a.toLowerCase().split(/[-_.\s]+/).filter((t) => t.length > 0);
+  const tokensB = b.toLowerCase().split(/[-_.\s]+/).filter((t) => t.length > 0);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  // Each token counts by its closest counterpart in the other id
+  const matches = tokensA.reduce(
+    (sum, t) => sum + Math.max(...tokensB.map((u) => anchorTokenSimilarity(t, u))),
+    0
+  );
+  const tokenSimilarity = matches / Math.max(tokensA.length, tokensB.length);
+
+  const maxLen = Math.max(a.length, b.length);
+  const editSimilarity = 1 - levenshtein(a.toLowerCase(), b.toLowerCase()) / maxLen;
+
+  return tokenSimilarity * 0.6 + editSimilarity * 0.4;
+}
+
 /**
  * Extract the pathname from a URL.
  */
@@ -105,10 +144,33 @@ export interface FixOptions {
   minConfidence?: number;
   /** Maximum number of suggestions per broken link. Default: 1. */
   maxSuggestions?: number;
+  /** Pages of an earlier scan; their fingerprints identify where a broken link's page moved. */
+  previousPages?: CrawledPage[];
+  /** Pages of the current scan that are fix targets, with their fingerprints. */
+  currentPages?: CrawledPage[];
+  /** Simhash bits a moved page's content may differ in, as for near-duplicates. Default: 3. */
+  nearDuplicateDistance?: number;
+  /** Broken #fragment links, each matched against its target page's anchors. */
+  brokenFragments?: BrokenFragment[];
+}
+
+/**
+ * Extract the pathname and fragment from a URL.
+ */
+function getPathWithFragment(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.hash;
+  } catch {
+    return url;
+  }
 }
 
 /**
  * Given broken links and a list of known-good URLs, compute fix suggestions.
+ * Broken #fragment links are matched against the anchors that exist on
+ * their target page. Given the pages of an earlier scan, a broken link to
+ * a page that moved is matched to the page now serving its content.
  */
 export function computeFixes(
   brokenLinks: LinkCheckResult[],
@@ -117,16 +179,38 @@ export function computeFixes(
   options: FixOptions = {}
 ): LinkFix[] {
   const minConfidence = options.minConfidence ?? 0.4;
+  const nearDuplicateDistance =
+    options.nearDuplicateDistance ?? DEFAULT_NEAR_DUPLICATE_DISTANCE;
   const fixes: LinkFix[] = [];
 
   // Build a map of broken URLs to their source pages
   const brokenByUrl = new Map<string, string[]>();
   for (const link of brokenLinks) {
     const existing = brokenByUrl.get(link.href) ?? [];
-    existing.push(link.sourcePage);
+    const pages =
+      link.referrers.length > 0
+        ? link.referrers.map((r) => r.page)
+        : [link.sourcePage];
+    for (const page of pages) {
+      if (!existing.includes(page)) {
+        existing.push(page);
+      }
+    }
     brokenByUrl.set(link.href, existing);
   }
 
+  // Fingerprints of pages as they were, and as they are now
+  const previousContent = new Map<string, ContentFingerprint>();
+  for (const page of options.previousPages ?? []) {
+    if (page.fingerprint) {
+      previousContent.set(page.url, page.fingerprint);
+    }
+  }
+  const currentContent = (options.currentPages ?? []).filter(
+    (page): page is CrawledPage & { fingerprint: ContentFingerprint } =>
+      page.fingerprint !== undefined
+  );
+
   // Build a redirect target map for broken links that had redirect info
   const redirectTargets = new Map<string, string>();
   for (const link of redirectLinks) {
@@ -152,7 +236,39 @@ export function computeFixes(
       }
     }
 
-    // Strategy 2: Fuzzy match against known-good URLs
+    // Strategy 2: Find the page's old content at a new URL
+    const before = previousContent.get(brokenUrl);
+    if (before) {
+      let moved: { url: string; distance: number } | null = null;
+      for (const page of currentContent) {
+        if (page.url === brokenUrl) continue;
+        const distance = simhashDistance(before, page.fingerprint);
+        // Among equally close pages (duplicates), prefer the closest path
+        const better =
+          !moved ||
+          distance < moved.distance ||
+          (distance === moved.distance &&
+            pathSimilarity(brokenUrl, page.url) > pathSimilarity(brokenUrl, moved.url));
+        // A moved page may change as much as a near-duplicate may differ
+        if (distance <= nearDuplicateDistance && better) {
+          moved = { url: page.url, distance };
+        }
+      }
+
+      const confidence = moved ? 0.9 - moved.distance * 0.05 : 0;
+      if (moved && confidence >= minConfidence) {
+        fixes.push({
+          originalHref: brokenUrl,
+          suggestedHref: moved.url,
+          confidence,
+          method: "content-match",
+          sourcePages,
+        });
+        continue;
+      }
+    }
+
+    // Strategy 3: Fuzzy match against known-good URLs
     let bestMatch: { url: string; score: number } | null = null;
 
     for (const goodUrl of knownGoodUrls) {
@@ -180,6 +296,27 @@ export function computeFixes(
     }
   }
 
+  for (const broken of options.brokenFragments ?? []) {
+    let bestAnchor: { id: string; score: number } | null = null;
+
+    for (const id of broken.availableAnchors) {
+      const score = anchorSimilarity(broken.fragment, id);
+      if (score > (bestAnchor?.score ?? 0)) {
+        bestAnchor = { id, score };
+      }
+    }
+
+    if (bestAnchor && bestAnchor.score >= minConfidence) {
+      fixes.push({
+        originalHref: broken.href,
+        suggestedHref: `${broken.targetUrl}#${encodeURIComponent(bestAnchor.id)}`,
+        confidence: bestAnchor.score,
+        method: "closest-anchor",
+        sourcePages: broken.sourcePages,
+      });
+    }
+  }
+
   // Sort by confidence descending
   fixes.sort((a, b) => b.confidence - a.confidence);
   return fixes;
@@ -187,12 +324,16 @@ export function computeFixes(
 
 /**
  * Convert link fixes to redirect entries (for generating redirect configs).
+ * Anchor fixes and HTTPS upgrades are skipped: fragments never reach the
+ * server, and an upgrade keeps the same path, so both can only be fixed in
+ * the linking page.
  */
 export function fixesToRedirects(
   fixes: LinkFix[],
   minConfidence: number = 0.6
 ): RedirectEntry[] {
   return fixes
+    .filter((fix) => fix.method !== "closest-anchor" && fix.method !== "https-upgrade")
     .filter((fix) => fix.confidence >= minConfidence)
     .map((fix) => ({
       from: getPathname(fix.originalHref),
@@ -203,12 +344,17 @@ export function fixesToRedirects(
 
 /**
  * Apply link fixes to file content.
- * Returns the modified content with broken hrefs replaced.
+ * Returns the modified content with broken hrefs replaced. HTTPS upgrades
+ * replace the absolute URL wherever it appears as an attribute value, in a
+ * srcset or in a CSS url(), since they apply to resources as well as links.
+ * When `pageUrl` names the page the content renders as, anchor fixes for
+ * that page's own fragments also replace bare `href="#fragment"` links.
  */
 export function applyFixesToContent(
   content: string,
   fixes: LinkFix[],
-  minConfidence: number = 0.7
+  minConfidence: number = 0.7,
+  pageUrl?: string
 ): { content: string; appliedCount: number } {
   let modified = content;
   let appliedCount = 0;
@@ -216,9 +362,22 @@ export function applyFixesToContent(
   for (const fix of fixes) {
     if (fix.confidence < minConfidence) continue;
 
+    if (fix.method === "https-upgrade") {
+      const pattern = new RegExp(
+        `(["'(\\s,])${escapeRegex(fix.originalHref)}(?=["')\\s,])`,
+        "g"
+      );
+      const before = modified;
+      modified = modified.replace(pattern, (_, lead: string) => lead + fix.suggestedHref);
+      if (modified !== before) {
+        appliedCount++;
+      }
+      continue;
+    }
+
     // Replace href values in HTML attributes
-    const originalPath = getPathname(fix.originalHref);
-    const suggestedPath = getPathname(fix.suggestedHref);
+    const originalPath = getPathWithFragment(fix.originalHref);
+    const suggestedPath = getPathWithFragment(fix.suggestedHref);
 
     // Match href="<path>" or href='<path>'
     const patterns = [
@@ -227,14 +386,31 @@ export function applyFixesToContent(
       new RegExp(`href="${escapeRegex(fix.originalHref)}"`, "g"),
       new RegExp(`href='${escapeRegex(fix.originalHref)}'`, "g"),
     ];
+    // A bare #fragment only refers to the target on the target page itself
+    const [targetUrl, originalFragment = ""] = fix.originalHref.split(/(?=#)/);
+    const [, suggestedFragment = ""] = fix.suggestedHref.split(/(?=#)/);
+    const isInPageLink =
+      fix.method === "closest-anchor" &&
+      pageUrl !== undefined &&
+      targetUrl === pageUrl &&
+      fix.sourcePages.includes(pageUrl);
+    if (isInPageLink && originalFragment) {
+      patterns.push(
+        new RegExp(`href="${escapeRegex(originalFragment)}"`, "g"),
+        new RegExp(`href='${escapeRegex(originalFragment)}'`, "g")
+      );
+    }
 
     for (const pattern of patterns) {
       const before = modified;
       modified = modified.replace(pattern, (match) => {
-        return match.replace(
-          match.includes(fix.originalHref) ? fix.originalHref : originalPath,
-          match.includes(fix.originalHref) ? fix.suggestedHref : suggestedPath
-        );
+        if (match.includes(fix.originalHref)) {
+          return match.replace(fix.originalHref, fix.suggestedHref);
+        }
+        if (match.includes(originalPath)) {
+          return match.replace(originalPath, suggestedPath);
+        }
+        return match.replace(originalFragment, suggestedFragment);
       });
       if (modified !== before) {
         appliedCount++;
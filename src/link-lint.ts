@@ -0,0 +1,296 @@
+/**
+ * link-lint.ts
+ *
+ * Lint rules for links that work but could be better: text that does not
+ * say where a link goes, target=_blank without rel=noopener, nofollow on
+ * our own pages, javascript: and empty hrefs, links through internal
+ * redirects, and absolute links to our own origin. Each rule has a default
+ * severity that can be changed or turned off, and custom rules can be
+ * added alongside the built-in ones.
+ */
+
+import { isHttpUrl, type ElementReader } from "./page-extractor.js";
+import type { TargetCheck } from "./seo-checks.js";
+import type { LinkLintFinding, LinkLintRuleId, Severity } from "./types.js";
+
+/** Selector for the links the rules look at. */
+const LINK_SELECTOR = "a[href]";
+
+/** Link texts that say nothing about where the link goes, after normalizeText. */
+const GENERIC_TEXTS = new Set([
+  "click",
+  "click here",
+  "continue",
+  "details",
+  "go",
+  "here",
+  "learn more",
+  "link",
+  "more",
+  "more info",
+  "read more",
+  "this",
+  "this link",
+  "this page",
+]);
+
+/** An <a href> element as the lint rules see it. */
+export interface PageLink {
+  /** The href attribute as written. */
+  href: string;
+  /** The href resolved against the page, or null if it is not an HTTP(S) URL. */
+  url: string | null;
+  /** Link text, falling back to alt/title/aria-label and the alt text of images inside the link. */
+  text: string;
+  /** CSS selector locating the link on the page. */
+  selector: string;
+  /** The target attribute, or null if there is none. */
+  target: string | null;
+  /** Lowercased rel keywords, e.g. "noopener", "nofollow". */
+  rel: string[];
+}
+
+/** What the rules know about the site, beyond the link itself. */
+export interface LintContext {
+  /** Whether a (normalized) URL is part of the site. */
+  isInternal(url: string): boolean;
+  /** Normalize a URL the way the scan keys URLs. */
+  normalize(url: string): string;
+  /** The check result of a normalized URL, if it was checked. */
+  checks(url: string): TargetCheck | undefined;
+}
+
+/** A link lint rule. */
+export interface LinkLintRule {
+  /** Unique id, used in findings and to configure the rule. */
+  id: string;
+  /** Severity of findings unless configured otherwise. */
+  severity: Severity;
+  /** What the rule looks for. */
+  description: string;
+  /** Return why `link` on `page` breaks the rule, or null if it does not. */
+  check(link: PageLink, page: string, context: LintContext): string | null;
+}
+
+/** Severity overrides by rule id; "off" disables a rule. */
+export type LinkLintConfig = Record<string, Severity | "off">;
+
+/** Lowercase link text and drop punctuation and symbols such as arrows. */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Whether a link points at a page of the site. */
+function isInternalLink(link: PageLink, context: LintContext): boolean {
+  return link.url !== null && context.isInternal(context.normalize(link.url));
+}
+
+/** The built-in rules, by id. */
+const BUILT_IN_RULES: Record<LinkLintRuleId, Omit<LinkLintRule, "id">> = {
+  "empty-text": {
+    severity: "error",
+    description: "Links without text, so screen readers announce the URL instead",
+    check: (link) =>
+      normalizeText(link.text) === ""
+        ? "Link has no text, alt or aria-label, so screen readers announce its URL"
+        : null,
+  },
+  "generic-text": {
+    severity: "warning",
+    description: 'Link text such as "click here" that does not say where the link goes',
+    check: (link) =>
+      GENERIC_TEXTS.has(normalizeText(link.text))
+        ? `Link text "${link.text}" does not say where the link goes`
+        : null,
+  },
+  "unsafe-target-blank": {
+    severity: "warning",
+    description: 'target="_blank" without rel="noopener"',
+    check: (link) =>
+      link.target?.toLowerCase() === "_blank" &&
+      !link.rel.includes("noopener") &&
+      !link.rel.includes("noreferrer")
+        ? 'Opens in a new tab without rel="noopener", so the new page can reach window.opener'
+        : null,
+  },
+  "internal-nofollow": {
+    severity: "warning",
+    description: 'rel="nofollow" on links to our own pages',
+    check: (link, _page, context) =>
+      link.rel.includes("nofollow") && isInternalLink(link, context)
+        ? 'Internal link has rel="nofollow", so search engines do not follow it'
+        : null,
+  },
+  "javascript-href": {
+    severity: "error",
+    description: "javascript: URLs used as links",
+    check: (link) =>
+      /^javascript:/i.test(link.href.trim())
+        ? "Uses a javascript: URL; use a button, or a real href the script enhances"
+        : null,
+  },
+  "empty-href": {
+    severity: "warning",
+    description: 'Empty hrefs and bare "#" links',
+    check: (link) => {
+      const href = link.href.trim();
+      if (href === "") return "Has an empty href, which just reloads the page";
+      if (href === "#") return 'Links to "#", which only jumps to the top of the page';
+      return null;
+    },
+  },
+  "internal-redirect": {
+    severity: "warning",
+    description: "Links to internal URLs that redirect",
+    check: (link, _page, context) => {
+      if (!isInternalLink(link, context)) return null;
+      const check = context.checks(context.normalize(link.url!));
+      if (!check || check.redirectChain.length === 0 || !check.finalUrl) return null;
+      // The check is of the normalized URL, which may redirect to the very
+      // URL written (a stripped trailing slash, say)
+      if (link.url!.replace(/#.*$/, "") === check.finalUrl) return null;
+      return `Links to ${link.href}, which redirects to ${check.finalUrl}`;
+    },
+  },
+  "absolute-internal": {
+    severity: "info",
+    description: "Absolute links to the page's own origin",
+    check: (link, page) => {
+      // A scheme or protocol-relative "//" makes the href absolute
+      if (!link.url || !/^([a-z][a-z\d+.-]*:)?\/\//i.test(link.href.trim())) return null;
+      const url = new URL(link.url);
+      if (url.origin !== new URL(page).origin) return null;
+      return `Absolute link to our own origin; use ${url.pathname}${url.search}${url.hash} instead`;
+    },
+  },
+};
+
+/** The built-in rules, in the order their findings are reported. */
+export const LINK_LINT_RULES: LinkLintRule[] = Object.entries(BUILT_IN_RULES).map(
+  ([id, rule]) => ({ id, ...rule })
+);
+
+/**
+ * Apply a configuration to the built-in rules and any custom ones: rules
+ * set to "off" are dropped, others take the configured severity. Throws on
+ * configuration for a rule that does not exist, so typos are not ignored.
+ */
+export function resolveLintRules(
+  config: LinkLintConfig,
+  customRules: LinkLintRule[] = []
+): LinkLintRule[] {
+  const rules = [...LINK_LINT_RULES, ...customRules];
+  for (const id of Object.keys(config)) {
+    if (!rules.some((rule) => rule.id === id)) {
+      throw new Error(
+        `Unknown link lint rule: ${id}. Use one of ${rules.map((r) => r.id).join(", ")}.`
+      );
+    }
+  }
+
+  return rules.flatMap((rule) => {
+    const severity = config[rule.id] ?? rule.severity;
+    return severity === "off" ? [] : [{ ...rule, severity }];
+  });
+}
+
+/**
+ * Parse a `rule=severity` setting as given on the command line, where the
+ * severity is error, warning, info or off.
+ */
+export function parseLintRule(value: string): [string, Severity | "off"] {
+  const [id, level] = value.split("=").map((part) => part.trim());
+  const levels = ["error", "warning", "info", "off"];
+  if (!id || !level || !levels.includes(level)) {
+    throw new Error(
+      `Invalid lint rule setting "${value}": expected "rule=error|warning|info|off"`
+    );
+  }
+  return [id, level as Severity | "off"];
+}
+
+/**
+ * Read the href, text, target and rel of every link on a page.
+ */
+export async function extractPageLinks(
+  read: ElementReader,
+  pageUrl: string
+): Promise<PageLink[]> {
+  // Each link is read once per attribute, in the same order
+  const hrefs = await read(LINK_SELECTOR, "href");
+  const targets = await read(LINK_SELECTOR, "target");
+  const rels = await read(LINK_SELECTOR, "rel");
+
+  return hrefs.map((ref, i) => {
+    const href = ref.value ?? "";
+    let url: string | null = null;
+    try {
+      const resolved = new URL(href.trim(), pageUrl).toString();
+      url = isHttpUrl(resolved) ? resolved : null;
+    } catch {
+      // Malformed hrefs are still linted for their text and attributes
+    }
+
+    return {
+      href,
+      url,
+      text: ref.text,
+      selector: ref.selector,
+      target: targets[i]?.value ?? null,
+      rel: (rels[i]?.value ?? "").toLowerCase().split(/\s+/).filter(Boolean),
+    };
+  });
+}
+
+/**
+ * Run the rules over the links of crawled pages. Findings are grouped per
+ * rule and link target, with every page the link breaks the rule on.
+ */
+export function lintLinks(
+  pages: Map<string, PageLink[]>,
+  rules: LinkLintRule[],
+  context: LintContext
+): LinkLintFinding[] {
+  const findings = new Map<string, LinkLintFinding>();
+
+  for (const rule of rules) {
+    for (const [page, links] of pages) {
+      for (const link of links) {
+        const message = rule.check(link, page, context);
+        if (message === null) continue;
+
+        const key = `${rule.id} ${link.url ? context.normalize(link.url) : link.href.trim()}`;
+        let finding = findings.get(key);
+        if (!finding) {
+          finding = {
+            rule: rule.id,
+            severity: rule.severity,
+            href: link.href,
+            message,
+            sourcePage: page,
+            referrers: [],
+          };
+          findings.set(key, finding);
+        }
+
+        const referrer = finding.referrers.find((r) => r.page === page);
+        if (referrer) {
+          referrer.occurrences++;
+        } else {
+          finding.referrers.push({
+            page,
+            text: link.text,
+            selector: link.selector,
+            occurrences: 1,
+          });
+        }
+      }
+    }
+  }
+
+  return Array.from(findings.values());
+}
@@ -6,118 +6,559 @@
  * redirect chains, and server errors.
  */
 
-import { chromium, type Browser, type Page } from "playwright";
-import type { LinkCheckResult, ScanResult } from "./types.js";
+import {
+  chromium,
+  type Browser,
+  type BrowserContext,
+  type Page,
+} from "playwright";
+import {
+  applyCredentials,
+  credentialHeaders,
+  fetchFollowingRedirects,
+  loadCredentials,
+  runLoginScript,
+  toContextOptions,
+  type AuthOptions,
+  type Credentials,
+} from "./auth.js";
+import { fetchSitemapUrls } from "./sitemap.js";
+import { fetchRobotsRules, isAllowedByRobots, type RobotsRules } from "./robots.js";
+import {
+  createConcurrencyLimiter,
+  createHostLimiter,
+  createThrottle,
+} from "./rate-limiter.js";
+import {
+  MAX_RETRY_DELAY_MS,
+  computeBackoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+} from "./retry.js";
+import {
+  ANCHOR_SELECTOR,
+  describeElements,
+  extractReferences,
+  isHtmlContentType,
+  isHttpUrl,
+  nonHtmlPage,
+  toAnchorSet,
+  type ElementReader,
+  type PageReference,
+  type RenderOptions,
+  type RenderedPage,
+} from "./page-extractor.js";
+import { extractCssUrls } from "./resources.js";
+import { fetchStaticPage } from "./static-renderer.js";
+import {
+  createDirectoryFetch,
+  fileForPage,
+  serveDirectoryInBrowser,
+} from "./directory-site.js";
+import { captureEvidence } from "./evidence.js";
+import {
+  DEFAULT_NEAR_DUPLICATE_DISTANCE,
+  findDuplicateContent,
+  fingerprintPage,
+} from "./duplicate-content.js";
+import { auditRedirects } from "./redirect-audit.js";
+import { extractPageSeo, findSeoIssues, type TargetCheck } from "./seo-checks.js";
+import {
+  extractPageLinks,
+  lintLinks,
+  resolveLintRules,
+  type LinkLintConfig,
+  type LinkLintRule,
+} from "./link-lint.js";
+import { findMixedContent, isMixedContent, toHttpsUrl } from "./mixed-content.js";
+import { computePageDepths, createCrawlScope } from "./crawl-scope.js";
+import { toPageErrorReports, watchPageErrors } from "./page-errors.js";
+import { createNormalizer, type NormalizationRules } from "./url-normalizer.js";
+import type { CheckPhase, ScanEvents } from "./events.js";
+import {
+  DEFAULT_SPA_OPTIONS,
+  discoverRoutes,
+  prepareContext,
+  settlePage,
+  type SpaOptions,
+  type WaitUntil,
+} from "./spa-discovery.js";
+import {
+  DEFAULT_SOFT_404_OPTIONS,
+  detectSoft404,
+  extractPageText,
+  makeProbeUrl,
+  stripPath,
+} from "./soft-404.js";
+import {
+  createCrawlState,
+  loadCheckpoint,
+  saveCheckpoint,
+  type CrawlState,
+  type DiscoveredLink,
+} from "./checkpoint.js";
+import type {
+  BrokenFragment,
+  LinkCheckResult,
+  LinkReferrer,
+  OrphanPages,
+  RendererName,
+  ScanResult,
+} from "./types.js";
 
 /** Options for the link scanner. */
 export interface ScanOptions {
   /** Maximum number of pages to crawl. Default: 100. */
   maxPages?: number;
+  /** Only crawl pages this many clicks from the root (0 = the root only). Default: unlimited. */
+  maxDepth?: number;
   /** Request timeout in milliseconds. Default: 15000. */
   timeout?: number;
   /** Whether to follow and record redirect chains. Default: true. */
   followRedirects?: boolean;
+  /** Redirect chains with more hops than this are flagged by the audit. Default: 1. */
+  maxRedirectHops?: number;
+  /** A previous report, used to spot temporary redirects that stayed in place. */
+  previousReport?: ScanResult;
   /** Concurrency limit for checking links. Default: 5. */
   concurrency?: number;
+  /** Pages crawled at once, each in its own browser page. Default: 4. */
+  crawlConcurrency?: number;
   /** Additional URL patterns to exclude (regex strings). */
   excludePatterns?: string[];
+  /** When given, only crawl URLs matching one of these regexes. Default: []. */
+  includePatterns?: string[];
+  /** Only crawl pages whose path starts with this, e.g. "/docs/". */
+  pathPrefix?: string;
+  /** Other origins ("https://docs.example.com") or hosts ("*.example.com") that are part of the site. Default: []. */
+  internalOrigins?: string[];
+  /** How URL variants are collapsed for dedupe and reporting. Default: strip fragments and trailing slashes. */
+  normalization?: Partial<NormalizationRules>;
+  /** Whether to seed the crawl from the site's sitemap. Default: true. */
+  useSitemap?: boolean;
+  /** Sitemap URLs to read. Default: [] (uses <origin>/sitemap.xml). */
+  sitemapUrls?: string[];
+  /** How pages are rendered: "browser" (Playwright) or "static" (fetch + HTML parser). Default: "browser". */
+  renderer?: RendererName;
+  /** When browser navigation counts as finished. Default: "domcontentloaded". */
+  waitUntil?: WaitUntil;
+  /** A selector the browser waits for before reading each page. */
+  waitForSelector?: string;
+  /** Whether the browser scrolls each page to trigger lazy content. Default: false. */
+  scrollPages?: boolean;
+  /** Whether the browser records client-side routes and clicks router links. Default: false. */
+  captureRoutes?: boolean;
+  /** Elements clicked to discover client-side routes. Default: buttons and router link roles. */
+  routeClickSelector?: string;
+  /** Most elements clicked per page when capturing routes. Default: 50. */
+  maxRouteClicks?: number;
+  /** Whether to obey robots.txt rules and Crawl-delay. Default: true. */
+  respectRobots?: boolean;
+  /** Whether to also check links to other origins. Default: false. */
+  checkExternal?: boolean;
+  /** Concurrent external checks allowed per host. Default: 2. */
+  externalConcurrencyPerHost?: number;
+  /** External requests started per second per host (0 = unlimited). Default: 2. */
+  externalRequestsPerSecond?: number;
+  /** Whether to check that #fragments exist as anchors on the target page. Default: true. */
+  checkFragments?: boolean;
+  /** Whether to check images, scripts, stylesheets, frames, media and forms. Default: true. */
+  checkResources?: boolean;
+  /** Whether to flag 2xx pages that show not-found content. Default: true. */
+  detectSoft404s?: boolean;
+  /** Regexes for not-found page titles. Default: DEFAULT_SOFT_404_OPTIONS.titlePatterns. */
+  soft404TitlePatterns?: string[];
+  /** Regexes for not-found page text. Default: DEFAULT_SOFT_404_OPTIONS.bodyPatterns. */
+  soft404BodyPatterns?: string[];
+  /** Pages with less visible text than this are soft 404s (0 disables). Default: 20. */
+  soft404MinTextLength?: number;
+  /** Whether to check canonical, hreflang and meta robots tags. Default: true. */
+  checkSeo?: boolean;
+  /** Whether to flag http:// links and resources on https:// pages. Default: true. */
+  checkMixedContent?: boolean;
+  /** Whether to run the link lint rules over every <a href> link. Default: true. */
+  lintLinks?: boolean;
+  /** Severity overrides for lint rules by id; "off" disables a rule. Default: {}. */
+  lintRules?: LinkLintConfig;
+  /** Lint rules to run alongside the built-in ones. Default: []. */
+  customLintRules?: LinkLintRule[];
+  /** Whether to fingerprint page content and report duplicate pages. Default: true. */
+  checkDuplicates?: boolean;
+  /** Simhash bits two pages may differ in to count as near-duplicates (0 = identical only). Default: 3. */
+  nearDuplicateDistance?: number;
+  /** Whether to record JavaScript errors and failed requests on crawled pages (browser renderer only). Default: true. */
+  capturePageErrors?: boolean;
+  /** Save screenshots of pages with broken links to this directory, with the link outlined, and HTML snippets in the report. */
+  evidenceDir?: string;
+  /** Most evidence screenshots per scan. Default: 50. */
+  maxEvidenceScreenshots?: number;
+  /** Retries for transient failures (429, 5xx gateway errors, resets). Default: 2. */
+  retries?: number;
+  /** Base delay for exponential retry backoff, in milliseconds. Default: 500. */
+  retryBaseDelayMs?: number;
+  /** Whether to try HEAD before GET (falling back on 405/501). Default: true. */
+  headFirst?: boolean;
+  /** Credentials for sites behind a login. Default: none. */
+  auth?: AuthOptions;
+  /** Read the site from this built directory instead of a server; implies the static renderer. */
+  rootDir?: string;
+  /** Write crawl state to this file periodically so the scan can be resumed. */
+  checkpointFile?: string;
+  /** Pages crawled (or links checked) between checkpoints. Default: 25. */
+  checkpointInterval?: number;
+  /** Resume from this checkpoint file; new checkpoints go to the same file unless checkpointFile is set. */
+  resumeFrom?: string;
+  /** Receives progress events and findings as the scan runs. */
+  events?: ScanEvents;
+  /** fetch implementation for checks, robots.txt, sitemaps and static pages. Default: the global fetch. */
+  fetch?: typeof fetch;
 }
 
-const DEFAULT_OPTIONS: Required<ScanOptions> = {
+const DEFAULT_OPTIONS: Required<
+  Omit<
+    ScanOptions,
+    | "checkpointFile"
+    | "resumeFrom"
+    | "rootDir"
+    | "previousReport"
+    | "maxDepth"
+    | "pathPrefix"
+    | "waitForSelector"
+    | "events"
+    | "evidenceDir"
+    | "fetch"
+  >
+> = {
   maxPages: 100,
   timeout: 15000,
   followRedirects: true,
+  maxRedirectHops: 1,
   concurrency: 5,
+  crawlConcurrency: 4,
   excludePatterns: [],
+  includePatterns: [],
+  internalOrigins: [],
+  normalization: {},
+  useSitemap: true,
+  sitemapUrls: [],
+  renderer: "browser",
+  waitUntil: DEFAULT_SPA_OPTIONS.waitUntil,
+  scrollPages: DEFAULT_SPA_OPTIONS.scroll,
+  captureRoutes: DEFAULT_SPA_OPTIONS.captureRoutes,
+  routeClickSelector: DEFAULT_SPA_OPTIONS.routeClickSelector,
+  maxRouteClicks: DEFAULT_SPA_OPTIONS.maxRouteClicks,
+  respectRobots: true,
+  checkExternal: false,
+  externalConcurrencyPerHost: 2,
+  externalRequestsPerSecond: 2,
+  checkFragments: true,
+  checkResources: true,
+  detectSoft404s: true,
+  soft404TitlePatterns: DEFAULT_SOFT_404_OPTIONS.titlePatterns,
+  soft404BodyPatterns: DEFAULT_SOFT_404_OPTIONS.bodyPatterns,
+  soft404MinTextLength: DEFAULT_SOFT_404_OPTIONS.minTextLength,
+  checkSeo: true,
+  checkMixedContent: true,
+  lintLinks: true,
+  lintRules: {},
+  customLintRules: [],
+  checkDuplicates: true,
+  nearDuplicateDistance: DEFAULT_NEAR_DUPLICATE_DISTANCE,
+  capturePageErrors: true,
+  maxEvidenceScreenshots: 50,
+  retries: 2,
+  retryBaseDelayMs: 500,
+  headFirst: true,
+  auth: {},
+  checkpointInterval: 25,
 };
 
 /**
- * Normalize a URL by removing trailing slashes, fragments, and query params
- * for deduplication purposes.
+ * Record that `sourcePage` references `ref.url` (already normalized as
+ * `href`). The first occurrence on each page supplies the text and selector.
  */
-function normalizeUrl(url: string): string {
+function recordLink(
+  links: Map<string, DiscoveredLink>,
+  href: string,
+  ref: PageReference,
+  sourcePage: string,
+  sourceFile: string | null = null
+): void {
+  let link = links.get(href);
+  if (!link) {
+    link = { kind: ref.kind, referrers: new Map() };
+    links.set(href, link);
+  } else if (ref.kind === "link") {
+    link.kind = "link";
+  }
+
+  const referrer = link.referrers.get(sourcePage);
+  if (referrer) {
+    referrer.occurrences++;
+  } else {
+    link.referrers.set(sourcePage, {
+      page: sourcePage,
+      text: ref.text,
+      selector: ref.selector,
+      occurrences: 1,
+      ...(sourceFile ? { file: sourceFile } : {}),
+    });
+  }
+}
+
+/**
+ * Build a LinkCheckResult from a discovered link and its check outcome.
+ */
+function toLinkCheckResult(
+  href: string,
+  link: DiscoveredLink,
+  check: CheckOutcome
+): LinkCheckResult {
+  const referrers = Array.from(link.referrers.values());
+  return {
+    sourcePage: referrers[0]!.page,
+    referrers,
+    href,
+    resolvedUrl: href,
+    kind: link.kind,
+    statusCode: check.statusCode,
+    isRedirect: check.redirectChain.length > 0,
+    finalUrl: check.finalUrl,
+    redirectChain: check.redirectChain,
+    redirectStatuses: check.redirectStatuses,
+    error: check.error,
+    attempts: check.attempts,
+  };
+}
+
+/**
+ * Whether an external check failed: no response, or a 4xx/5xx status.
+ */
+function isBrokenExternal(result: LinkCheckResult): boolean {
+  return result.statusCode === null || result.statusCode >= 400;
+}
+
+/**
+ * Whether a status code is a 2xx success.
+ */
+function isSuccessStatus(status: number | null): boolean {
+  return status !== null && status >= 200 && status < 300;
+}
+
+/** Settings for checking a single URL. */
+interface CheckOptions {
+  timeout: number;
+  followRedirects: boolean;
+  retries: number;
+  retryBaseDelayMs: number;
+  headFirst: boolean;
+  /** Credentials to send, or null for anonymous checks. */
+  credentials: Credentials | null;
+  /** fetch implementation to use. */
+  fetch: typeof fetch;
+}
+
+/** Outcome of checking a single URL. */
+interface CheckOutcome {
+  statusCode: number | null;
+  finalUrl: string | null;
+  redirectChain: string[];
+  redirectStatuses: number[];
+  error: string | null;
+  attempts: number;
+}
+
+/**
+ * Pick the per-check settings out of the scan options.
+ */
+function toCheckOptions(
+  opts: Pick<
+    Required<ScanOptions>,
+    "timeout" | "followRedirects" | "retries" | "retryBaseDelayMs" | "headFirst"
+  >,
+  credentials: Credentials | null = null,
+  fetchImpl: typeof fetch = fetch
+): CheckOptions {
+  return {
+    timeout: opts.timeout,
+    followRedirects: opts.followRedirects,
+    retries: opts.retries,
+    retryBaseDelayMs: opts.retryBaseDelayMs,
+    headFirst: opts.headFirst,
+    credentials,
+    fetch: fetchImpl,
+  };
+}
+
+/**
+ * Make one request with the given method, bounded by the timeout.
+ */
+async function request(
+  url: string,
+  method: "HEAD" | "GET",
+  options: CheckOptions
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
   try {
-    const parsed = new URL(url);
-    parsed.hash = "";
-    // Keep query params as they may serve different content
-    let normalized = parsed.toString();
-    if (normalized.endsWith("/") && parsed.pathname !== "/") {
-      normalized = normalized.slice(0, -1);
+    return await options.fetch(url, {
+      method,
+      redirect: "manual",
+      signal: controller.signal,
+      headers: {
+        "User-Agent": "site-autofix/1.0 (link-checker)",
+        ...(options.credentials ? credentialHeaders(options.credentials, url) : {}),
+      },
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Request a URL, trying HEAD first (falling back to GET when the server
+ * does not support it) and retrying transient failures with backoff.
+ * `counter.attempts` is incremented once per try, excluding HEAD fallbacks.
+ */
+async function requestWithRetry(
+  url: string,
+  options: CheckOptions,
+  counter: { attempts: number }
+): Promise<Response> {
+  const method = options.headFirst ? "HEAD" : "GET";
+
+  for (let attempt = 0; ; attempt++) {
+    counter.attempts++;
+    const canRetry = attempt < options.retries;
+
+    let response: Response;
+    try {
+      response = await request(url, method, options);
+      const headUnsupported = response.status === 405 || response.status === 501;
+      if (method === "HEAD" && headUnsupported) {
+        await response.body?.cancel();
+        response = await request(url, "GET", options);
+      }
+    } catch (err) {
+      // Connection resets, DNS hiccups and timeouts
+      if (!canRetry) throw err;
+      await sleep(computeBackoffDelay(attempt, options.retryBaseDelayMs));
+      continue;
     }
-    return normalized;
-  } catch {
-    return url;
+
+    if (!canRetry || !isRetryableStatus(response.status)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    await response.body?.cancel();
+    await sleep(
+      retryAfter !== null
+        ? Math.min(retryAfter, MAX_RETRY_DELAY_MS)
+        : computeBackoffDelay(attempt, options.retryBaseDelayMs)
+    );
   }
 }
 
 /**
- * Check if a URL is internal (same origin) relative to the base URL.
+ * Fetch a stylesheet and return the URLs its url() references point to,
+ * resolved against the stylesheet, where relative CSS URLs start from.
+ * A stylesheet that cannot be fetched yields none; its own check reports it.
  */
-function isInternalUrl(url: string, baseOrigin: string): boolean {
+async function fetchStylesheetUrls(url: string, options: CheckOptions): Promise<string[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
   try {
-    const parsed = new URL(url);
-    return parsed.origin === baseOrigin;
+    const { response, url: finalUrl } = await fetchFollowingRedirects(url, {
+      signal: controller.signal,
+      headers: (hopUrl) => ({
+        "User-Agent": "site-autofix/1.0 (link-checker)",
+        Accept: "text/css",
+        ...(options.credentials ? credentialHeaders(options.credentials, hopUrl) : {}),
+      }),
+      fetch: options.fetch,
+    });
+    if (!isSuccessStatus(response.status)) {
+      await response.body?.cancel();
+      return [];
+    }
+
+    const urls: string[] = [];
+    for (const raw of extractCssUrls(await response.text())) {
+      try {
+        const resolved = new URL(raw, finalUrl).toString();
+        if (isHttpUrl(resolved)) {
+          urls.push(resolved);
+        }
+      } catch {
+        // Skip malformed URLs
+      }
+    }
+    return urls;
   } catch {
-    return false;
+    return [];
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
 /**
- * Check a single URL and return its status, following redirects.
+ * Check a single URL and return its status, following redirects. A
+ * redirect back to a URL already in the chain is reported as a loop.
  */
-async function checkUrl(
-  url: string,
-  timeout: number,
-  followRedirects: boolean
-): Promise<{ statusCode: number | null; finalUrl: string | null; redirectChain: string[]; error: string | null }> {
+async function checkUrl(url: string, options: CheckOptions): Promise<CheckOutcome> {
   const redirectChain: string[] = [];
+  const redirectStatuses: number[] = [];
+  const counter = { attempts: 0 };
   let currentUrl = url;
 
   try {
-    const maxRedirects = followRedirects ? 10 : 0;
+    const maxRedirects = options.followRedirects ? 10 : 0;
     for (let i = 0; i <= maxRedirects; i++) {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      try {
-        const response = await fetch(currentUrl, {
-          method: "GET",
-          redirect: "manual",
-          signal: controller.signal,
-          headers: {
-            "User-Agent": "site-autofix/1.0 (link-checker)",
-          },
-        });
-
-        clearTimeout(timeoutId);
-        const status = response.status;
+      const response = await requestWithRetry(currentUrl, options, counter);
+      const status = response.status;
+      await response.body?.cancel();
 
-        if (status >= 300 && status < 400 && followRedirects) {
-          const location = response.headers.get("location");
-          if (location) {
-            redirectChain.push(currentUrl);
-            currentUrl = new URL(location, currentUrl).toString();
-            continue;
+      if (status >= 300 && status < 400 && options.followRedirects) {
+        const location = response.headers.get("location");
+        if (location) {
+          redirectChain.push(currentUrl);
+          redirectStatuses.push(status);
+          currentUrl = new URL(location, currentUrl).toString();
+          if (redirectChain.includes(currentUrl)) {
+            return {
+              statusCode: null,
+              finalUrl: currentUrl,
+              redirectChain,
+              redirectStatuses,
+              error: "Redirect loop",
+              attempts: counter.attempts,
+            };
           }
+          continue;
         }
-
-        return {
-          statusCode: status,
-          finalUrl: redirectChain.length > 0 ? currentUrl : null,
-          redirectChain,
-          error: null,
-        };
-      } catch (err) {
-        clearTimeout(timeoutId);
-        throw err;
       }
+
+      return {
+        statusCode: status,
+        finalUrl: redirectChain.length > 0 ? currentUrl : null,
+        redirectChain,
+        redirectStatuses,
+        error: null,
+        attempts: counter.attempts,
+      };
     }
 
     return {
       statusCode: null,
       finalUrl: currentUrl,
       redirectChain,
+      redirectStatuses,
       error: "Too many redirects",
+      attempts: counter.attempts,
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -125,37 +566,109 @@ async function checkUrl(
       statusCode: null,
       finalUrl: null,
       redirectChain,
+      redirectStatuses,
       error: message,
+      attempts: counter.attempts,
     };
   }
 }
 
 /**
- * Extract all internal links from a page using Playwright.
+ * Return the decoded fragment of a URL if it should be validated against
+ * the target page's anchors, or null for fragments that do not name an
+ * element: empty, "#top", hash-bang and client-side routes, and text
+ * fragments (#:~:text=...).
  */
-async function extractLinks(page: Page, baseOrigin: string): Promise<string[]> {
-  // Use page.locator to extract href attributes from all anchor elements.
-  // This avoids needing DOM types in our TypeScript config.
-  const anchors = page.locator("a[href]");
-  const count = await anchors.count();
-  const hrefs: string[] = [];
-  for (let i = 0; i < count; i++) {
-    const href = await anchors.nth(i).getAttribute("href");
-    if (href) {
-      try {
-        // Resolve relative URLs against the page URL
-        const pageUrl = page.url();
-        const resolved = new URL(href, pageUrl).toString();
-        hrefs.push(resolved);
-      } catch {
-        // Skip malformed URLs
-      }
-    }
+function getCheckableFragment(url: string): string | null {
+  let hash: string;
+  try {
+    hash = new URL(url).hash.slice(1);
+  } catch {
+    return null;
+  }
+  if (!hash || hash.toLowerCase() === "top") return null;
+  if (hash.startsWith("!") || hash.startsWith("/") || hash.startsWith(":~:")) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
   }
+}
 
-  return hrefs
-    .filter((href) => isInternalUrl(href, baseOrigin))
-    .map((href) => normalizeUrl(href));
+/**
+ * Render a page in the browser and extract its anchors, references, text
+ * and metadata. Client-side routes are discovered last, since doing so
+ * clicks around the page, without loading any page `isBlocked` rejects.
+ * With `captureErrors`, script errors and failed requests are recorded for
+ * the whole time the page is open.
+ */
+async function renderInBrowser(
+  context: BrowserContext,
+  url: string,
+  options: RenderOptions,
+  spa: SpaOptions,
+  captureErrors: boolean,
+  isBlocked: (url: string) => Promise<boolean>
+): Promise<RenderedPage> {
+  const page: Page = await context.newPage();
+  const stopWatching = captureErrors ? watchPageErrors(page) : null;
+  try {
+    const response = await page.goto(url, {
+      timeout: options.timeout,
+      waitUntil: spa.waitUntil,
+    });
+    // Images, PDFs and text files open as a near-empty document; like the
+    // static renderer, only HTML pages are read
+    if (response && !isHtmlContentType(response.headers()["content-type"])) {
+      return nonHtmlPage(
+        page.url(),
+        response.status(),
+        stopWatching ? await stopWatching() : null
+      );
+    }
+    await settlePage(page, spa, options.timeout);
+
+    // Elements are untyped here since our TypeScript config has no DOM lib
+    const anchors = options.includeAnchors
+      ? toAnchorSet(
+          await page
+            .locator(ANCHOR_SELECTOR)
+            .evaluateAll((els) =>
+              els.flatMap((el) => [el.getAttribute("id"), el.getAttribute("name")])
+            )
+        )
+      : null;
+
+    const read: ElementReader = (selector, attribute) =>
+      page.locator(selector).evaluateAll(describeElements, attribute);
+    const pageUrl = page.url();
+    const references = await extractReferences(read, pageUrl, options.includeResources);
+    // The rendered DOM, so client-side not-found templates are seen too
+    const html =
+      options.includeText || options.includeFingerprint ? await page.content() : null;
+    const text = html !== null && options.includeText ? extractPageText(html) : null;
+    const seo = options.includeSeo ? await extractPageSeo(read, pageUrl) : null;
+    const links = options.includeLinks ? await extractPageLinks(read, pageUrl) : null;
+    if (spa.captureRoutes) {
+      references.push(...(await discoverRoutes(page, spa, options.timeout, isBlocked)));
+    }
+
+    return {
+      url: pageUrl,
+      status: response?.status() ?? null,
+      anchors,
+      references,
+      text,
+      seo,
+      links,
+      fingerprint: html !== null && options.includeFingerprint ? fingerprintPage(html) : null,
+      errors: stopWatching ? await stopWatching() : null,
+    };
+  } finally {
+    await page.close();
+  }
 }
 
 /**
@@ -187,95 +700,682 @@ async function asyncPool<T, R>(
   return results;
 }
 
+/**
+ * Find pages that are only reachable through the sitemap, and working pages
+ * the sitemap does not list. `renderedPages` are the crawled pages that
+ * rendered real content; failed, missing and redirecting URLs are not
+ * pages the sitemap should list. Without a sitemap there is nothing to
+ * compare.
+ */
+function findOrphanPages(
+  rootUrl: string,
+  sitemapPages: Set<string>,
+  renderedPages: Set<string>,
+  linkedPages: Set<string>
+): OrphanPages {
+  if (sitemapPages.size === 0) {
+    return { unlinked: [], unlisted: [] };
+  }
+
+  return {
+    unlinked: Array.from(sitemapPages).filter(
+      (url) => url !== rootUrl && !linkedPages.has(url)
+    ),
+    unlisted: Array.from(renderedPages).filter((url) => !sitemapPages.has(url)),
+  };
+}
+
+/**
+ * Find fragment links whose target page has no matching id or name anchor.
+ * Targets that were never crawled are skipped, since their anchors are unknown.
+ */
+function findBrokenFragments(
+  fragmentRefs: Map<string, Map<string, Set<string>>>,
+  pageAnchors: Map<string, Set<string>>
+): BrokenFragment[] {
+  const broken: BrokenFragment[] = [];
+
+  for (const [targetUrl, fragments] of fragmentRefs) {
+    const anchors = pageAnchors.get(targetUrl);
+    if (!anchors) continue;
+
+    for (const [fragment, sourcePages] of fragments) {
+      if (anchors.has(fragment)) continue;
+      broken.push({
+        kind: "broken-fragment",
+        href: `${targetUrl}#${encodeURIComponent(fragment)}`,
+        targetUrl,
+        fragment,
+        sourcePages: Array.from(sourcePages),
+        availableAnchors: Array.from(anchors),
+      });
+    }
+  }
+
+  return broken;
+}
+
 /**
  * Scan a website for broken links.
  *
- * Crawls the site starting from `rootUrl`, extracts all internal links,
- * checks each link's status code, and returns a comprehensive scan result.
+ * Crawls the site starting from `rootUrl` (plus any pages listed in its
+ * sitemap), extracts all internal links, checks each link's status code,
+ * and returns a comprehensive scan result.
  */
 export async function scanSite(
   rootUrl: string,
   options: ScanOptions = {}
 ): Promise<ScanResult> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const events = opts.events;
   const baseOrigin = new URL(rootUrl).origin;
-  const excludeRegexes = opts.excludePatterns.map((p) => new RegExp(p));
+  const scope = createCrawlScope({
+    baseOrigin,
+    internalOrigins: opts.internalOrigins,
+    includePatterns: opts.includePatterns,
+    excludePatterns: opts.excludePatterns,
+    pathPrefix: opts.pathPrefix ?? null,
+  });
+  const isInternalUrl = scope.isInternal;
+  // Every URL is normalized before it is queued, checked or reported, so
+  // variants of a page share one entry. Resume with the same rules.
+  const normalizeUrl = createNormalizer(opts.normalization);
+  const normalizedRoot = normalizeUrl(rootUrl);
+  const credentials = loadCredentials(baseOrigin, opts.auth);
+  // A directory scan answers requests for the site from disk
+  const fetchImpl = opts.rootDir
+    ? createDirectoryFetch(opts.rootDir, baseOrigin, opts.fetch)
+    : (opts.fetch ?? fetch);
+  const renderer = opts.rootDir ? "static" : opts.renderer;
+  const checkOptions = toCheckOptions(opts, credentials, fetchImpl);
+  // Resolved up front so a misconfigured rule fails before a long crawl
+  const lintRules = opts.lintLinks
+    ? resolveLintRules(opts.lintRules, opts.customLintRules)
+    : [];
 
-  const visited = new Set<string>();
-  const toVisit: string[] = [normalizeUrl(rootUrl)];
-  const allLinks = new Map<string, Set<string>>(); // href -> set of source pages
+  // Resume from a checkpoint, or start from scratch
+  const checkpointFile = opts.checkpointFile ?? opts.resumeFrom;
+  let state: CrawlState;
+  if (opts.resumeFrom) {
+    state = loadCheckpoint(opts.resumeFrom);
+    if (normalizeUrl(state.rootUrl) !== normalizedRoot) {
+      throw new Error(
+        `Checkpoint ${opts.resumeFrom} is for ${state.rootUrl}, not ${rootUrl}`
+      );
+    }
+  } else {
+    state = createCrawlState(rootUrl);
+    state.toVisit.add(normalizedRoot);
+    state.depths.set(normalizedRoot, 0);
+  }
+  events?.emit("scan-started", {
+    rootUrl,
+    resumed: Boolean(opts.resumeFrom),
+    pagesCrawled: state.visited.size,
+    queued: state.toVisit.size,
+    linksChecked: state.results.length,
+  });
+  // Pages being crawled right now; a checkpoint saves them as unvisited
+  const inFlight = new Set<string>();
+  const checkpoint = (): void => {
+    if (!checkpointFile) return;
+    if (inFlight.size === 0) {
+      saveCheckpoint(checkpointFile, state);
+      return;
+    }
+    saveCheckpoint(checkpointFile, {
+      ...state,
+      toVisit: new Set([...inFlight, ...state.toVisit]),
+      visited: new Set(Array.from(state.visited).filter((url) => !inFlight.has(url))),
+    });
+  };
 
-  let browser: Browser | null = null;
+  // robots.txt is always read for its Sitemap lines; its rules are only
+  // enforced when respectRobots is set
+  const robots = await fetchRobotsRules(
+    baseOrigin,
+    opts.timeout,
+    (url) => credentialHeaders(credentials, url),
+    fetchImpl
+  );
+  // Other internal origins follow their own robots.txt, read when first needed
+  const robotsByOrigin = new Map<string, Promise<RobotsRules>>([
+    [baseOrigin, Promise.resolve(robots)],
+  ]);
+  const isBlocked = async (url: string): Promise<boolean> => {
+    if (!opts.respectRobots || !isInternalUrl(url)) return false;
+    const { origin } = new URL(url);
+    let rules = robotsByOrigin.get(origin);
+    if (!rules) {
+      rules = fetchRobotsRules(
+        origin,
+        opts.timeout,
+        (robotsUrl) => credentialHeaders(credentials, robotsUrl),
+        fetchImpl
+      );
+      robotsByOrigin.set(origin, rules);
+    }
+    return !isAllowedByRobots(await rules, url);
+  };
+  const throttle = createThrottle(
+    opts.respectRobots && robots.crawlDelay !== null ? robots.crawlDelay * 1000 : 0
+  );
 
-  try {
-    browser = await chromium.launch({ headless: true });
+  // Seed the crawl with sitemap pages so sitemap-only pages are visited too
+  if (opts.useSitemap && !opts.resumeFrom) {
+    const sitemapUrls =
+      opts.sitemapUrls.length > 0
+        ? opts.sitemapUrls
+        : robots.sitemaps.length > 0
+          ? robots.sitemaps
+          : [new URL("/sitemap.xml", baseOrigin).toString()];
+    const listed = await fetchSitemapUrls(sitemapUrls, {
+      timeout: opts.timeout,
+      headers: (url) => credentialHeaders(credentials, url),
+      fetch: fetchImpl,
+    });
+    for (const url of listed) {
+      const normalized = normalizeUrl(url);
+      if (!scope.isInScope(normalized)) continue;
+      state.sitemapPages.add(normalized);
+      state.toVisit.add(normalized);
+    }
+    events?.emit("sitemap-loaded", { pages: state.sitemapPages.size });
+  }
+
+  const spaOptions: SpaOptions = {
+    waitUntil: opts.waitUntil,
+    waitForSelector: opts.waitForSelector ?? null,
+    scroll: opts.scrollPages,
+    captureRoutes: opts.captureRoutes,
+    routeClickSelector: opts.routeClickSelector,
+    maxRouteClicks: opts.maxRouteClicks,
+  };
+
+  /** A browser context with the scan's credentials and page setup. */
+  const openContext = async (browser: Browser): Promise<BrowserContext> => {
     const context = await browser.newContext({
       userAgent: "site-autofix/1.0 (crawler)",
+      ...toContextOptions(credentials, opts.auth),
     });
+    await applyCredentials(context, credentials);
+    await prepareContext(context, spaOptions);
+    return context;
+  };
 
-    // Phase 1: Crawl pages and collect links
-    while (toVisit.length > 0 && visited.size < opts.maxPages) {
-      const url = toVisit.shift()!;
-      if (visited.has(url)) continue;
-      if (excludeRegexes.some((r) => r.test(url))) continue;
+  // Phase 1: Log in, then crawl pages and collect links. A resumed scan
+  // whose crawl is done still logs in so the link checks are authenticated.
+  if (!state.crawlComplete || opts.auth.loginScript) {
+    let browser: Browser | null = null;
+    let context: BrowserContext | null = null;
 
-      visited.add(url);
-      process.stderr.write(`  Crawling: ${url}\n`);
+    try {
+      // The static renderer only needs a browser to run the login script
+      if (renderer === "browser" || opts.auth.loginScript) {
+        browser = await chromium.launch({ headless: true });
+        context = await openContext(browser);
+      }
 
-      try {
-        const page = await context.newPage();
-        await page.goto(url, {
-          timeout: opts.timeout,
-          waitUntil: "domcontentloaded",
-        });
+      if (context && opts.auth.loginScript) {
+        events?.emit("login-started", { script: opts.auth.loginScript });
+        await runLoginScript(opts.auth.loginScript, context);
+        // Session cookies set by the login are reused by the fetch checks
+        credentials.cookies = await context.cookies();
+      }
+
+      const renderOptions: RenderOptions = {
+        timeout: opts.timeout,
+        includeAnchors: opts.checkFragments,
+        includeResources: opts.checkResources,
+        includeText: opts.detectSoft404s,
+        includeSeo: opts.checkSeo,
+        includeLinks: lintRules.length > 0,
+        includeFingerprint: opts.checkDuplicates,
+      };
+      const renderPage = (url: string): Promise<RenderedPage> =>
+        context && renderer === "browser"
+          ? renderInBrowser(
+              context,
+              url,
+              renderOptions,
+              spaOptions,
+              opts.capturePageErrors,
+              isBlocked
+            )
+          : fetchStaticPage(url, { ...renderOptions, credentials, fetch: fetchImpl });
 
-        const links = await extractLinks(page, baseOrigin);
-        for (const link of links) {
-          if (!allLinks.has(link)) {
-            allLinks.set(link, new Set());
+      // Learn what the site serves for a URL that cannot exist. A probe that
+      // redirects (e.g. to the home page) is not used for comparison.
+      const soft404Options = {
+        ...DEFAULT_SOFT_404_OPTIONS,
+        titlePatterns: opts.soft404TitlePatterns,
+        bodyPatterns: opts.soft404BodyPatterns,
+        minTextLength: opts.soft404MinTextLength,
+      };
+      let probeText: string | null = null;
+      if (opts.detectSoft404s && !state.crawlComplete) {
+        const probeUrl = makeProbeUrl(baseOrigin);
+        try {
+          const probe = await renderPage(probeUrl);
+          if (
+            probe.text &&
+            isSuccessStatus(probe.status) &&
+            normalizeUrl(probe.url) === normalizeUrl(probeUrl)
+          ) {
+            probeText = stripPath(probeUrl, probe.text.text);
+            events?.emit("soft-404-probe", { status: probe.status });
           }
-          allLinks.get(link)!.add(url);
+        } catch {
+          // Without a probe, soft 404s are detected by pattern only
+        }
+      }
 
-          if (!visited.has(link) && !toVisit.includes(link)) {
-            toVisit.push(link);
+      /** Render one page and record everything it links to. */
+      const crawlPage = async (url: string, depth: number | undefined): Promise<void> => {
+        try {
+          await throttle();
+          const rendered = await renderPage(url);
+          const sourceFile = opts.rootDir ? fileForPage(opts.rootDir, url) : null;
+          // Pages that redirect are recorded under their target instead
+          const renderedHere =
+            isSuccessStatus(rendered.status) && normalizeUrl(rendered.url) === url;
+          if (renderedHere) {
+            state.renderedPages.add(url);
+          }
+          // An error page's anchors are its template's, not the page's
+          if (rendered.anchors && isSuccessStatus(rendered.status)) {
+            state.pageAnchors.set(url, rendered.anchors);
+          }
+          if (rendered.text && isSuccessStatus(rendered.status)) {
+            const reason = detectSoft404(
+              url,
+              rendered.text,
+              probeText,
+              soft404Options
+            );
+            if (reason) {
+              state.soft404s.set(url, reason);
+            }
+          }
+          if (rendered.errors && rendered.errors.length > 0) {
+            state.pageErrors.set(url, rendered.errors);
           }
+          if (rendered.fingerprint && renderedHere) {
+            state.pageFingerprints.set(url, rendered.fingerprint);
+          }
+          if (rendered.links && rendered.links.length > 0) {
+            state.pageLinks.set(url, rendered.links);
+          }
+          if (rendered.seo) {
+            state.pageSeo.set(url, rendered.seo);
+            // Language versions are crawled so their hreflang links can be compared
+            for (const alternate of rendered.seo.alternates) {
+              const target = normalizeUrl(alternate.url);
+              if (isInternalUrl(target) && !state.visited.has(target)) {
+                state.toVisit.add(target);
+              }
+            }
+          }
+
+          for (const ref of rendered.references) {
+            if (opts.checkMixedContent && isMixedContent(url, ref.url)) {
+              recordLink(state.insecureLinks, ref.url, ref, url, sourceFile);
+            }
+
+            const link = normalizeUrl(ref.url);
+            if (!isInternalUrl(link)) {
+              if (opts.checkExternal) {
+                recordLink(state.externalLinks, link, ref, url, sourceFile);
+              }
+              continue;
+            }
+
+            recordLink(state.links, link, ref, url, sourceFile);
+
+            // Resources are checked but never crawled
+            if (ref.kind !== "link") continue;
+
+            const fragment = opts.checkFragments ? getCheckableFragment(ref.url) : null;
+            if (fragment !== null) {
+              if (!state.fragmentRefs.has(link)) {
+                state.fragmentRefs.set(link, new Map());
+              }
+              const refs = state.fragmentRefs.get(link)!;
+              if (!refs.has(fragment)) {
+                refs.set(fragment, new Set());
+              }
+              refs.get(fragment)!.add(url);
+            }
+
+            const known = state.depths.get(link);
+            if (depth !== undefined && (known === undefined || known > depth + 1)) {
+              state.depths.set(link, depth + 1);
+            }
+            const withinDepth =
+              opts.maxDepth === undefined ||
+              (depth !== undefined && depth + 1 <= opts.maxDepth);
+            if (withinDepth && scope.isInScope(link) && !state.visited.has(link)) {
+              state.toVisit.add(link);
+            }
+          }
+
+          events?.emit("page-crawled", {
+            url,
+            depth: depth ?? null,
+            status: rendered.status,
+            references: rendered.references.length,
+            pagesCrawled: state.visited.size,
+            queued: state.toVisit.size,
+          });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          events?.emit("page-failed", { url, error: message });
         }
+      };
 
-        await page.close();
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        process.stderr.write(`  Error crawling ${url}: ${message}\n`);
+      // With maxDepth, a page expanded deeper than its shortest depth would
+      // never queue the children a shorter path puts within reach. So the
+      // shallowest queued page goes next, and only once no page in flight
+      // could still find a shorter path to it; null means wait.
+      const nextPage = (): string | null => {
+        const first: string = state.toVisit.values().next().value!;
+        if (opts.maxDepth === undefined) return first;
+
+        let next = first;
+        let nextDepth = state.depths.get(first) ?? Infinity;
+        for (const url of state.toVisit) {
+          const depth = state.depths.get(url) ?? Infinity;
+          if (depth < nextDepth) {
+            next = url;
+            nextDepth = depth;
+          }
+        }
+        const shallowestInFlight = Math.min(
+          ...Array.from(inFlight, (url) => state.depths.get(url) ?? Infinity)
+        );
+        return shallowestInFlight < nextDepth - 1 ? null : next;
+      };
+
+      // Pages are crawled concurrently from the shared frontier. A page
+      // counts as visited once started; checkpoints requeue pages still in
+      // flight, so the saved frontier and link map always agree.
+      const active = new Set<Promise<void>>();
+      let sinceCheckpoint = 0;
+      while (!state.crawlComplete) {
+        while (
+          active.size < opts.crawlConcurrency &&
+          state.toVisit.size > 0 &&
+          state.visited.size < opts.maxPages
+        ) {
+          const url = nextPage();
+          if (url === null) break;
+          state.toVisit.delete(url);
+          if (state.visited.has(url)) continue;
+          // The root is always crawled, as the entry point into the scope
+          if (url !== normalizedRoot && !scope.isInScope(url)) continue;
+          // Pages with no known depth yet (e.g. from the sitemap) are
+          // queued again if a link reaches them within maxDepth
+          const depth = state.depths.get(url);
+          if (opts.maxDepth !== undefined && (depth === undefined || depth > opts.maxDepth)) {
+            continue;
+          }
+          if (await isBlocked(url)) {
+            state.robotsBlocked.add(url);
+            continue;
+          }
+
+          state.visited.add(url);
+          inFlight.add(url);
+          events?.emit("page-started", { url, depth: depth ?? null });
+          const task: Promise<void> = crawlPage(url, depth).finally(() => {
+            inFlight.delete(url);
+            active.delete(task);
+            sinceCheckpoint++;
+          });
+          active.add(task);
+        }
+
+        if (active.size === 0) break;
+        await Promise.race(active);
+        if (sinceCheckpoint >= opts.checkpointInterval) {
+          checkpoint();
+          sinceCheckpoint = 0;
+        }
+      }
+
+      await context?.close();
+    } finally {
+      if (browser) {
+        await browser.close();
       }
     }
 
-    await context.close();
-  } finally {
-    if (browser) {
-      await browser.close();
+    // The site's stylesheets are read for their url() references, which
+    // are checked with the stylesheet as their referrer
+    if (opts.checkResources) {
+      const stylesheets = Array.from(state.links.entries())
+        .filter(([, link]) => link.kind === "stylesheet")
+        .map(([href]) => href);
+      await asyncPool(stylesheets, opts.concurrency, async (stylesheet) => {
+        if (await isBlocked(stylesheet)) return;
+        await throttle();
+        const sourceFile = opts.rootDir ? fileForPage(opts.rootDir, stylesheet) : null;
+        for (const url of await fetchStylesheetUrls(stylesheet, checkOptions)) {
+          const ref: PageReference = { url, kind: "css-url", text: "", selector: "url()" };
+          if (opts.checkMixedContent && isMixedContent(stylesheet, url)) {
+            recordLink(state.insecureLinks, url, ref, stylesheet, sourceFile);
+          }
+          const link = normalizeUrl(url);
+          if (isInternalUrl(link)) {
+            recordLink(state.links, link, ref, stylesheet, sourceFile);
+          } else if (opts.checkExternal) {
+            recordLink(state.externalLinks, link, ref, stylesheet, sourceFile);
+          }
+        }
+      });
     }
+
+    state.crawlComplete = true;
+    checkpoint();
   }
 
-  // Phase 2: Check all discovered links
-  process.stderr.write(`\n  Checking ${allLinks.size} unique links...\n`);
+  // Phase 2: Check all discovered links not already checked before a resume
+  const alreadyChecked = new Set(state.results.map((r) => r.href));
+  const linkEntries: Array<[string, DiscoveredLink]> = [];
+  for (const [href, link] of state.links) {
+    if (alreadyChecked.has(href)) continue;
+    if (await isBlocked(href)) {
+      state.robotsBlocked.add(href);
+      continue;
+    }
+    linkEntries.push([href, link]);
+  }
 
-  const linkEntries = Array.from(allLinks.entries());
-  const results: LinkCheckResult[] = [];
+  /** Announce a check phase; returns a counter of the checks done in it. */
+  const startChecks = (phase: CheckPhase, total: number): (() => number) => {
+    events?.emit("checks-started", { phase, total });
+    let done = 0;
+    return () => ++done;
+  };
 
-  await asyncPool(linkEntries, opts.concurrency, async ([href, sourcePages]) => {
-    const check = await checkUrl(href, opts.timeout, opts.followRedirects);
-    const result: LinkCheckResult = {
-      sourcePage: Array.from(sourcePages)[0]!,
-      href,
-      resolvedUrl: href,
-      statusCode: check.statusCode,
-      isRedirect: check.redirectChain.length > 0,
-      finalUrl: check.finalUrl,
-      redirectChain: check.redirectChain,
-      error: check.error,
-    };
-    results.push(result);
+  let checksSinceCheckpoint = 0;
+  const recordCheck = (
+    phase: "links" | "external",
+    result: LinkCheckResult,
+    checked: number,
+    total: number
+  ): void => {
+    const external = phase === "external";
+    (external ? state.externalResults : state.results).push(result);
+    events?.emit("link-checked", { phase, result, checked, total });
+    if (external ? isBrokenExternal(result) : result.statusCode === 404) {
+      events?.emit("broken-link-found", { result, external });
+    }
+    if (++checksSinceCheckpoint >= opts.checkpointInterval) {
+      checkpoint();
+      checksSinceCheckpoint = 0;
+    }
+  };
+
+  const countLinkChecks = startChecks("links", linkEntries.length);
+  await asyncPool(linkEntries, opts.concurrency, async ([href, link]) => {
+    await throttle();
+    const check = await checkUrl(href, checkOptions);
+    recordCheck(
+      "links",
+      toLinkCheckResult(href, link, check),
+      countLinkChecks(),
+      linkEntries.length
+    );
   });
 
+  // Phase 3: Check external links, each URL once, politely per host
+  const limitHost = createHostLimiter({
+    concurrency: opts.externalConcurrencyPerHost,
+    requestsPerSecond: opts.externalRequestsPerSecond,
+  });
+  const externalChecked = new Set(state.externalResults.map((r) => r.href));
+  const externalEntries = Array.from(state.externalLinks.entries()).filter(
+    ([href]) => !externalChecked.has(href)
+  );
+  if (externalEntries.length > 0) {
+    const countExternalChecks = startChecks("external", externalEntries.length);
+    // Every check queues at its host first and only then takes one of the
+    // shared slots, so a slow or rate-limited host cannot hold them all
+    const limitShared = createConcurrencyLimiter(opts.concurrency);
+    await Promise.all(
+      externalEntries.map(async ([href, link]) => {
+        const check = await limitHost(href, () =>
+          limitShared(() => checkUrl(href, checkOptions))
+        );
+        recordCheck(
+          "external",
+          toLinkCheckResult(href, link, check),
+          countExternalChecks(),
+          externalEntries.length
+        );
+      })
+    );
+  }
+  checkpoint();
+
+  const checked = new Map<string, TargetCheck>(
+    [...state.results, ...state.externalResults].map((r) => [r.href, r])
+  );
+
+  // See whether each insecure reference also answers over https
+  const httpsTargets = new Set<string>();
+  for (const href of state.insecureLinks.keys()) {
+    const httpsUrl = normalizeUrl(toHttpsUrl(href));
+    if (!checked.has(httpsUrl) && !(await isBlocked(httpsUrl))) {
+      httpsTargets.add(httpsUrl);
+    }
+  }
+  if (httpsTargets.size > 0) {
+    const countHttpsChecks = startChecks("https-upgrades", httpsTargets.size);
+    await asyncPool(Array.from(httpsTargets), opts.concurrency, async (href) => {
+      if (isInternalUrl(href)) {
+        await throttle();
+        checked.set(href, await checkUrl(href, checkOptions));
+      } else {
+        checked.set(href, await limitHost(href, () => checkUrl(href, checkOptions)));
+      }
+      events?.emit("url-checked", {
+        phase: "https-upgrades",
+        url: href,
+        checked: countHttpsChecks(),
+        total: httpsTargets.size,
+      });
+    });
+  }
+
+  // Canonical targets that no page links to still need a check
+  const canonicalTargets = new Set<string>();
+  for (const seo of state.pageSeo.values()) {
+    if (!seo.canonical) continue;
+    const target = normalizeUrl(seo.canonical);
+    if (isInternalUrl(target) && !checked.has(target) && !(await isBlocked(target))) {
+      canonicalTargets.add(target);
+    }
+  }
+  if (canonicalTargets.size > 0) {
+    const countCanonicalChecks = startChecks("canonicals", canonicalTargets.size);
+    await asyncPool(Array.from(canonicalTargets), opts.concurrency, async (href) => {
+      await throttle();
+      checked.set(href, await checkUrl(href, checkOptions));
+      events?.emit("url-checked", {
+        phase: "canonicals",
+        url: href,
+        checked: countCanonicalChecks(),
+        total: canonicalTargets.size,
+      });
+    });
+  }
+
+  // Phase 4: Show editors where broken links are, on their referring pages
+  if (opts.evidenceDir) {
+    const needEvidence = [
+      ...state.results.filter((r) => r.statusCode === 404),
+      ...state.externalResults.filter(isBrokenExternal),
+    ].filter((r) => !r.evidence);
+    if (needEvidence.length > 0) {
+      events?.emit("evidence-started", { links: needEvidence.length });
+      // Evidence is an extra: a browser that fails to start must not lose the scan
+      let browser: Browser | null = null;
+      try {
+        browser = await chromium.launch({ headless: true });
+        const context = await openContext(browser);
+        if (opts.rootDir) {
+          await serveDirectoryInBrowser(context, opts.rootDir, baseOrigin);
+        }
+        const evidence = await captureEvidence(context, needEvidence, {
+          dir: opts.evidenceDir,
+          timeout: opts.timeout,
+          waitUntil: spaOptions.waitUntil,
+          maxScreenshots: opts.maxEvidenceScreenshots,
+          settle: (page) => settlePage(page, spaOptions, opts.timeout),
+        });
+        for (const [link, items] of evidence) {
+          link.evidence = items;
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        events?.emit("evidence-failed", { error: message });
+      } finally {
+        await browser?.close();
+      }
+    }
+  }
+
+  const results = state.results;
+  const soft404s = results.flatMap((r) => {
+    if (!isSuccessStatus(r.statusCode)) return [];
+    const reason = state.soft404s.get(r.finalUrl ? normalizeUrl(r.finalUrl) : r.href);
+    return reason ? [{ ...r, soft404Reason: reason }] : [];
+  });
+  const brokenFragments = findBrokenFragments(state.fragmentRefs, state.pageAnchors);
+  if (opts.rootDir) {
+    for (const frag of brokenFragments) {
+      frag.sourceFiles = frag.sourcePages
+        .map((page) => fileForPage(opts.rootDir!, page))
+        .filter((file): file is string => file !== null);
+    }
+  }
+  const lintFindings = lintLinks(state.pageLinks, lintRules, {
+    isInternal: isInternalUrl,
+    normalize: normalizeUrl,
+    checks: (url) => checked.get(url),
+  });
+  if (opts.rootDir) {
+    for (const finding of lintFindings) {
+      for (const referrer of finding.referrers) {
+        const file = fileForPage(opts.rootDir, referrer.page);
+        if (file) {
+          referrer.file = file;
+        }
+      }
+    }
+  }
   const brokenLinks = results.filter((r) => r.statusCode === 404);
   const redirectLinks = results.filter((r) => r.isRedirect);
   const serverErrors = results.filter(
@@ -285,16 +1385,58 @@ export async function scanSite(
     (r) => r.statusCode === null && r.error !== null
   );
 
-  return {
+  const result: ScanResult = {
     baseUrl: rootUrl,
+    ...(opts.rootDir ? { rootDir: opts.rootDir } : {}),
     totalLinks: results.length,
-    pagesCrawled: visited.size,
+    pagesCrawled: state.visited.size,
+    crawledPages: computePageDepths(normalizedRoot, state.visited, state.links).map(
+      (page) => {
+        const fingerprint = state.pageFingerprints.get(page.url);
+        return fingerprint ? { ...page, fingerprint } : page;
+      }
+    ),
     brokenLinks,
+    soft404s,
     redirectLinks,
+    redirectAudit: auditRedirects(results, {
+      maxHops: opts.maxRedirectHops,
+      previous: opts.previousReport,
+    }),
+    seoFindings: findSeoIssues(state.pageSeo, (url) => checked.get(url), normalizeUrl),
+    mixedContent: findMixedContent(state.insecureLinks, (url) =>
+      checked.get(normalizeUrl(url))
+    ),
+    pageErrors: toPageErrorReports(state.pageErrors),
+    lintFindings,
+    duplicateContent: findDuplicateContent(
+      // Soft 404s share not-found content, and are reported as such
+      new Map(
+        Array.from(state.pageFingerprints).filter(([page]) => !state.soft404s.has(page))
+      ),
+      (page) => state.pageSeo.get(page)?.canonical ?? null,
+      opts.nearDuplicateDistance,
+      normalizeUrl
+    ),
     serverErrors,
     connectionErrors,
+    brokenFragments,
+    externalBrokenLinks: state.externalResults.filter(isBrokenExternal),
+    robotsBlocked: Array.from(state.robotsBlocked),
+    orphanPages: findOrphanPages(
+      normalizedRoot,
+      state.sitemapPages,
+      new Set(Array.from(state.renderedPages).filter((url) => !state.soft404s.has(url))),
+      new Set(
+        Array.from(state.links.entries())
+          .filter(([, link]) => link.kind === "link")
+          .map(([href]) => href)
+      )
+    ),
     timestamp: new Date().toISOString(),
   };
+  events?.emit("scan-complete", { result });
+  return result;
 }
 
 /**
@@ -303,23 +1445,34 @@ export async function scanSite(
  */
 export async function checkUrls(
   urls: string[],
-  options: Pick<ScanOptions, "timeout" | "concurrency" | "followRedirects"> = {}
+  options: Pick<
+    ScanOptions,
+    | "timeout"
+    | "concurrency"
+    | "followRedirects"
+    | "retries"
+    | "retryBaseDelayMs"
+    | "headFirst"
+  > = {}
 ): Promise<LinkCheckResult[]> {
-  const timeout = options.timeout ?? DEFAULT_OPTIONS.timeout;
-  const concurrency = options.concurrency ?? DEFAULT_OPTIONS.concurrency;
-  const followRedirects = options.followRedirects ?? DEFAULT_OPTIONS.followRedirects;
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const checkOptions = toCheckOptions(opts);
 
-  return asyncPool(urls, concurrency, async (url) => {
-    const check = await checkUrl(url, timeout, followRedirects);
+  return asyncPool(urls, opts.concurrency, async (url) => {
+    const check = await checkUrl(url, checkOptions);
     return {
       sourcePage: "",
+      referrers: [],
       href: url,
       resolvedUrl: url,
+      kind: "link",
       statusCode: check.statusCode,
       isRedirect: check.redirectChain.length > 0,
       finalUrl: check.finalUrl,
       redirectChain: check.redirectChain,
+      redirectStatuses: check.redirectStatuses,
       error: check.error,
+      attempts: check.attempts,
     };
   });
 }
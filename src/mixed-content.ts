@@ -0,0 +1,105 @@
+/**
+ * mixed-content.ts
+ *
+ * Finds http:// links and resources on https:// pages. Each reference is
+ * classified the way browsers treat it (blocked active content, passive
+ * content loaded with a warning, or a link that leaves HTTPS), and when the
+ * same URL answers over https the finding suggests rewriting it.
+ */
+
+import type { DiscoveredLink } from "./checkpoint.js";
+import type { TargetCheck } from "./seo-checks.js";
+import type {
+  LinkFix,
+  MixedContentFinding,
+  MixedContentType,
+  ResourceKind,
+  Severity,
+} from "./types.js";
+
+/** How browsers treat each kind of insecure reference. */
+const MIXED_CONTENT_TYPES: Record<ResourceKind, MixedContentType> = {
+  script: "active",
+  stylesheet: "active",
+  iframe: "active",
+  form: "active",
+  image: "passive",
+  media: "passive",
+  "css-url": "passive",
+  link: "link",
+};
+
+const SEVERITY: Record<MixedContentType, Severity> = {
+  active: "error",
+  passive: "warning",
+  link: "info",
+};
+
+/**
+ * Whether a page URL is served over https and a reference from it is not.
+ */
+export function isMixedContent(pageUrl: string, refUrl: string): boolean {
+  return pageUrl.startsWith("https:") && refUrl.startsWith("http:");
+}
+
+/**
+ * The https version of an http URL.
+ */
+export function toHttpsUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.protocol = "https:";
+  return parsed.toString();
+}
+
+/**
+ * Classify the insecure references found during a crawl. `checks` looks up
+ * the check result of each reference's https URL.
+ */
+export function findMixedContent(
+  insecureLinks: Map<string, DiscoveredLink>,
+  checks: (httpsUrl: string) => TargetCheck | undefined
+): MixedContentFinding[] {
+  const findings: MixedContentFinding[] = [];
+
+  for (const [href, link] of insecureLinks) {
+    const type = MIXED_CONTENT_TYPES[link.kind];
+    const httpsUrl = toHttpsUrl(href);
+    const check = checks(httpsUrl);
+    const httpsStatus = check?.statusCode ?? null;
+    const httpsAvailable = httpsStatus !== null && httpsStatus >= 200 && httpsStatus < 300;
+    const referrers = Array.from(link.referrers.values());
+
+    findings.push({
+      type,
+      severity: SEVERITY[type],
+      href,
+      kind: link.kind,
+      httpsUrl,
+      httpsStatus,
+      httpsAvailable,
+      suggestedHref: httpsAvailable ? httpsUrl : null,
+      sourcePage: referrers[0]!.page,
+      referrers,
+    });
+  }
+
+  // Blocked content first
+  const order: MixedContentType[] = ["active", "passive", "link"];
+  return findings.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+}
+
+/**
+ * Turn mixed content findings with a working https version into fixes that
+ * rewrite the reference.
+ */
+export function mixedContentFixes(findings: MixedContentFinding[]): LinkFix[] {
+  return findings
+    .filter((f) => f.suggestedHref !== null)
+    .map((f) => ({
+      originalHref: f.href,
+      suggestedHref: f.suggestedHref!,
+      confidence: 1,
+      method: "https-upgrade" as const,
+      sourcePages: f.referrers.map((r) => r.page),
+    }));
+}
@@ -0,0 +1,171 @@
+/**
+ * page-errors.ts
+ *
+ * Collects client-side breakage while a crawled page is open in the
+ * browser: uncaught exceptions, console.error calls, requests that got no
+ * response, and subresources that answered 4xx/5xx. Each error is run
+ * through the health monitor's stack trace extraction and classification.
+ * Browser renderer only.
+ */
+
+import type { ConsoleMessage, Page, Request, Response } from "playwright";
+import { classifyError, extractStackTrace } from "./health-monitor.js";
+import type { PageError, PageErrorReport, PageErrorType } from "./types.js";
+
+/** Longest message kept per error; console output can be huge. */
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Longest response body read for classification, as in the health monitor. */
+const MAX_BODY_LENGTH = 2000;
+
+/** Details of an error besides its type and message. */
+export interface PageErrorDetails {
+  url?: string | null;
+  statusCode?: number | null;
+  /** Text searched for a stack trace and error patterns (stack or response body). */
+  body?: string | null;
+  headers?: Record<string, string>;
+  responseTimeMs?: number;
+}
+
+/**
+ * Build a classified page error. Script errors are classified as if served
+ * with 200, since the page itself loaded; a request with no response
+ * classifies as a timeout, like an unreachable endpoint in the monitor.
+ */
+export function toPageError(
+  type: PageErrorType,
+  message: string,
+  details: PageErrorDetails = {}
+): PageError {
+  const body = details.body ?? null;
+  const isScript = type === "javascript-error" || type === "console-error";
+  const statusCode = details.statusCode ?? null;
+  return {
+    type,
+    message: message.slice(0, MAX_MESSAGE_LENGTH),
+    url: details.url ?? null,
+    statusCode,
+    stackTrace: extractStackTrace(body),
+    errorClass: classifyError(
+      isScript ? 200 : statusCode,
+      body ?? message,
+      details.headers ?? {},
+      details.responseTimeMs ?? 0
+    ),
+    occurrences: 1,
+  };
+}
+
+/**
+ * Add an error to a page's list, counting repeats of the same error (same
+ * type, message and URL) instead of listing them again.
+ */
+export function addPageError(errors: PageError[], error: PageError): void {
+  const same = errors.find(
+    (e) => e.type === error.type && e.message === error.message && e.url === error.url
+  );
+  if (same) {
+    same.occurrences += error.occurrences;
+  } else {
+    errors.push(error);
+  }
+}
+
+/**
+ * The pages that had errors, in crawl order.
+ */
+export function toPageErrorReports(pageErrors: Map<string, PageError[]>): PageErrorReport[] {
+  return Array.from(pageErrors.entries())
+    .filter(([, errors]) => errors.length > 0)
+    .map(([page, errors]) => ({ page, errors }));
+}
+
+/** The headers kept from a failing response, as in the health monitor. */
+const RESPONSE_HEADERS = ["content-type", "server", "x-request-id", "x-trace-id"];
+
+/**
+ * Start recording errors on `page`. Call before navigating; the returned
+ * function stops recording and resolves to the errors seen, once any
+ * pending response bodies have been read.
+ */
+export function watchPageErrors(page: Page): () => Promise<PageError[]> {
+  const errors: PageError[] = [];
+  const pending = new Set<Promise<void>>();
+
+  // The page's own document is reported by the crawl, not as a subresource
+  const isPageDocument = (response: Response): boolean =>
+    response.request().isNavigationRequest() && response.frame() === page.mainFrame();
+
+  const onPageError = (err: Error): void => {
+    addPageError(
+      errors,
+      toPageError("javascript-error", err.message, { body: err.stack ?? err.message })
+    );
+  };
+  const onConsole = (msg: ConsoleMessage): void => {
+    if (msg.type() !== "error") return;
+    addPageError(
+      errors,
+      toPageError("console-error", msg.text(), {
+        url: msg.location().url || null,
+        body: msg.text(),
+      })
+    );
+  };
+  const onRequestFailed = (request: Request): void => {
+    const reason = request.failure()?.errorText ?? "Request failed";
+    // Aborts happen whenever the page navigates away mid-load
+    if (reason.includes("ERR_ABORTED")) return;
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) return;
+    addPageError(errors, toPageError("request-failed", reason, { url: request.url() }));
+  };
+  const onResponse = (response: Response): void => {
+    const status = response.status();
+    if (status < 400 || isPageDocument(response)) return;
+
+    const task = (async () => {
+      const headers: Record<string, string> = {};
+      for (const name of RESPONSE_HEADERS) {
+        const value = response.headers()[name];
+        if (value) {
+          headers[name] = value;
+        }
+      }
+      // Server errors may carry a stack trace in the body
+      const body =
+        status >= 500
+          ? await response
+              .text()
+              .then((text) => text.slice(0, MAX_BODY_LENGTH))
+              .catch(() => null)
+          : null;
+      addPageError(
+        errors,
+        toPageError("http-error", `${status} ${response.statusText()}`.trim(), {
+          url: response.url(),
+          statusCode: status,
+          body,
+          headers,
+          responseTimeMs: Math.max(0, response.request().timing().responseEnd),
+        })
+      );
+    })();
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  };
+
+  page.on("pageerror", onPageError);
+  page.on("console", onConsole);
+  page.on("requestfailed", onRequestFailed);
+  page.on("response", onResponse);
+
+  return async () => {
+    page.off("pageerror", onPageError);
+    page.off("console", onConsole);
+    page.off("requestfailed", onRequestFailed);
+    page.off("response", onResponse);
+    await Promise.all(pending);
+    return errors;
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * page-extractor.ts
+ *
+ * Extracts the URLs a page references, and the anchors it defines, from
+ * its DOM. Renderers supply the elements: the browser renderer reads them
+ * from a live Playwright page, the static renderer from parsed HTML.
+ */
+
+import { RESOURCE_SOURCES, extractCssUrls, parseSrcset } from "./resources.js";
+import type { PageLink } from "./link-lint.js";
+import type { PageSeo } from "./seo-checks.js";
+import type { PageText } from "./soft-404.js";
+import type { ContentFingerprint, PageError, ResourceKind } from "./types.js";
+
+/** Selector for the elements that can be the target of a #fragment. */
+export const ANCHOR_SELECTOR = "[id], a[name]";
+
+/** The subset of the DOM Element API used by extraction. */
+export interface DomElement {
+  id: string;
+  tagName: string;
+  textContent: string | null;
+  parentElement: DomElement | null;
+  previousElementSibling: DomElement | null;
+  getAttribute(name: string): string | null;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+}
+
+/** A URL-bearing attribute value as read from the page, with its location. */
+export interface RawReference {
+  /** The attribute value (or element text, for <style> blocks). */
+  value: string | null;
+  /** Anchor text, falling back to the alt text of images inside, then alt/title/aria-label. */
+  text: string;
+  /** CSS selector locating the element. */
+  selector: string;
+}
+
+/** A resolved reference from a page to a URL. */
+export interface PageReference {
+  url: string;
+  kind: ResourceKind;
+  text: string;
+  selector: string;
+}
+
+/** A crawled page, as seen by a renderer. */
+export interface RenderedPage {
+  /** The page URL after any redirects; references are resolved against it. */
+  url: string;
+  /** HTTP status of the page, or null if unknown. */
+  status: number | null;
+  /** The page's id/name anchors, or null when not collected or not HTML. */
+  anchors: Set<string> | null;
+  /** Every HTTP(S) URL the page references. */
+  references: PageReference[];
+  /** The page's title and visible text, or null when not collected or not HTML. */
+  text: PageText | null;
+  /** The page's canonical, hreflang and robots metadata, or null when not collected or not HTML. */
+  seo: PageSeo | null;
+  /** The page's <a href> links with their text, target and rel, or null when not collected or not HTML. */
+  links: PageLink[] | null;
+  /** Fingerprint of the page's main content, or null when not collected, not HTML or too short. */
+  fingerprint: ContentFingerprint | null;
+  /** JavaScript errors and failed requests seen while the page was open, or null when not collected (always, without a browser). */
+  errors: PageError[] | null;
+}
+
+/** Options shared by the renderers. */
+export interface RenderOptions {
+  /** Request timeout in milliseconds. */
+  timeout: number;
+  /** Whether to collect the page's anchors. */
+  includeAnchors: boolean;
+  /** Whether to extract resources as well as <a href> links. */
+  includeResources: boolean;
+  /** Whether to collect the page's title and text (for soft-404 detection). */
+  includeText: boolean;
+  /** Whether to collect the page's canonical, hreflang and robots metadata. */
+  includeSeo: boolean;
+  /** Whether to collect the attributes of the page's links (for link lint rules). */
+  includeLinks: boolean;
+  /** Whether to fingerprint the page's main content (for duplicate detection). */
+  includeFingerprint: boolean;
+}
+
+/**
+ * Reads `attribute` (or the text content, when null) from every element
+ * matching `selector`, via describeElements.
+ */
+export type ElementReader = (
+  selector: string,
+  attribute: string | null
+) => Promise<RawReference[]>;
+
+/**
+ * Check if a URL uses a protocol we can check over HTTP.
+ */
+export function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a response content type is an HTML document. Only HTML pages
+ * have links, anchors, text and metadata to extract.
+ */
+export function isHtmlContentType(contentType: string | null | undefined): boolean {
+  return /html/i.test(contentType ?? "");
+}
+
+/**
+ * The rendered form of a response that is not HTML: its URL and status
+ * only, so images, PDFs and text files are never judged as pages.
+ */
+export function nonHtmlPage(
+  url: string,
+  status: number | null,
+  errors: PageError[] | null = null
+): RenderedPage {
+  return {
+    url,
+    status,
+    anchors: null,
+    references: [],
+    text: null,
+    seo: null,
+    links: null,
+    fingerprint: null,
+    errors,
+  };
+}
+
+/**
+ * Turn the id and name attribute values of anchor elements into a set.
+ */
+export function toAnchorSet(names: Array<string | null | undefined>): Set<string> {
+  return new Set(names.filter((n): n is string => typeof n === "string" && n !== ""));
+}
+
+/**
+ * Read `attribute` (or the text content, when null) from each element and
+ * describe where the element sits in the DOM. Also runs in the browser, so
+ * it must be self-contained: Playwright serializes it into the page.
+ */
+export function describeElements(
+  els: DomElement[],
+  attribute: string | null
+): RawReference[] {
+  const selectorFor = (el: DomElement): string => {
+    const parts: string[] = [];
+    let node: DomElement | null = el;
+    while (node && node.tagName.toLowerCase() !== "html") {
+      if (node.id) {
+        parts.unshift(
+          /^[A-Za-z][\w-]*$/.test(node.id)
+            ? `#${node.id}`
+            : `[id="${node.id.replace(/["\\]/g, "\\$&")}"]`
+        );
+        break;
+      }
+      let index = 1;
+      for (let sib = node.previousElementSibling; sib; sib = sib.previousElementSibling) {
+        if (sib.tagName === node.tagName) index++;
+      }
+      parts.unshift(`${node.tagName.toLowerCase()}:nth-of-type(${index})`);
+      node = node.parentElement;
+    }
+    return parts.join(" > ");
+  };
+
+  return els.map((el) => {
+    // Image links are named by the alt text of their images
+    const imageAlt = Array.from(el.querySelectorAll("img[alt]"))
+      .map((img) => img.getAttribute("alt")?.trim())
+      .filter(Boolean)
+      .join(" ");
+    const text = (
+      el.textContent?.trim() ||
+      imageAlt ||
+      el.getAttribute("alt") ||
+      el.getAttribute("title") ||
+      el.getAttribute("aria-label") ||
+      ""
+    )
+      .replace(/\s+/g, " ")
+      .slice(0, 200);
+    return {
+      value: attribute === null ? el.textContent : el.getAttribute(attribute),
+      text: attribute === null ? "" : text,
+      selector: selectorFor(el),
+    };
+  });
+}
+
+/**
+ * Extract every HTTP(S) URL a page references, internal and external, with
+ * the text and location of the referencing element. Besides <a href> links
+ * this covers images (including srcset candidates), stylesheets, scripts,
+ * iframes, media, form actions and CSS url() references. URLs are resolved
+ * against the page URL but not normalized, so fragments are kept.
+ */
+export async function extractReferences(
+  read: ElementReader,
+  pageUrl: string,
+  includeResources: boolean
+): Promise<PageReference[]> {
+  const found: Array<{ raw: string; kind: ResourceKind; ref: RawReference }> = [];
+
+  for (const ref of await read("a[href]", "href")) {
+    if (ref.value) {
+      found.push({ raw: ref.value.trim(), kind: "link", ref });
+    }
+  }
+
+  if (includeResources) {
+    for (const source of RESOURCE_SOURCES) {
+      for (const ref of await read(source.selector, source.attribute)) {
+        if (!ref.value || ref.value.trim() === "") continue;
+        const raws =
+          source.attribute === "srcset" ? parseSrcset(ref.value) : [ref.value.trim()];
+        for (const raw of raws) {
+          found.push({ raw, kind: source.kind, ref });
+        }
+      }
+    }
+
+    const styles = [...(await read("[style]", "style")), ...(await read("style", null))];
+    for (const ref of styles) {
+      for (const raw of extractCssUrls(ref.value ?? "")) {
+        found.push({ raw, kind: "css-url", ref });
+      }
+    }
+  }
+
+  const references: PageReference[] = [];
+  for (const { raw, kind, ref } of found) {
+    try {
+      const url = new URL(raw, pageUrl).toString();
+      if (isHttpUrl(url)) {
+        references.push({ url, kind, text: ref.text, selector: ref.selector });
+      }
+    } catch {
+      // Skip malformed URLs
+    }
+  }
+  return references;
+}
@@ -0,0 +1,95 @@
+/**
+ * progress.ts
+ *
+ * Renders scan and monitor progress events as the CLI's stderr output:
+ * one line per crawled page and phase, and a progress bar while links are
+ * checked when the output is a terminal.
+ */
+
+import type { CheckPhase, MonitorEvents, ScanEvents } from "./events.js";
+
+/** Where progress is written; process.stderr in the CLI. */
+export interface ProgressStream {
+  write(text: string): unknown;
+  /** Progress bars are only drawn on terminals. */
+  isTTY?: boolean;
+}
+
+/** How each check phase is announced, given its number of checks. */
+const PHASE_LABELS: Record<CheckPhase, (total: number) => string> = {
+  links: (total) => `\n  Checking ${total} unique links...`,
+  external: (total) => `  Checking ${total} external links...`,
+  "https-upgrades": (total) => `  Checking ${total} https upgrade(s)...`,
+  canonicals: (total) => `  Checking ${total} canonical target(s)...`,
+};
+
+/** Width of the progress bar, in characters. */
+const BAR_WIDTH = 30;
+
+/**
+ * Draw a progress bar over the current line; the last step ends the line.
+ */
+function drawBar(stream: ProgressStream, checked: number, total: number): void {
+  const filled = total > 0 ? Math.round((checked / total) * BAR_WIDTH) : BAR_WIDTH;
+  const bar = "#".repeat(filled) + "-".repeat(BAR_WIDTH - filled);
+  stream.write(`\r  [${bar}] ${checked}/${total}${checked >= total ? "\n" : ""}`);
+}
+
+/**
+ * Write scan progress to `stream` as events arrive.
+ */
+export function attachScanProgress(
+  events: ScanEvents,
+  stream: ProgressStream = process.stderr
+): void {
+  const line = (text: string): void => {
+    stream.write(`${text}\n`);
+  };
+
+  events.on("scan-started", (e) => {
+    if (e.resumed) {
+      line(
+        `  Resuming: ${e.pagesCrawled} page(s) crawled, ` +
+          `${e.queued} queued, ${e.linksChecked} link(s) checked`
+      );
+    }
+  });
+  events.on("sitemap-loaded", (e) => line(`  Sitemap: ${e.pages} page(s) found`));
+  events.on("login-started", (e) => line(`  Logging in with ${e.script}`));
+  events.on("soft-404-probe", (e) => line(`  Soft 404s: missing pages answer ${e.status}`));
+  events.on("page-started", (e) => line(`  Crawling: ${e.url}`));
+  events.on("page-failed", (e) => line(`  Error crawling ${e.url}: ${e.error}`));
+  events.on("checks-started", (e) => line(PHASE_LABELS[e.phase](e.total)));
+  events.on("evidence-started", (e) =>
+    line(`  Capturing evidence for ${e.links} broken link(s)...`)
+  );
+  events.on("evidence-failed", (e) => line(`  Evidence not captured: ${e.error}`));
+
+  if (stream.isTTY) {
+    events.on("link-checked", (e) => drawBar(stream, e.checked, e.total));
+    events.on("url-checked", (e) => drawBar(stream, e.checked, e.total));
+  }
+}
+
+/**
+ * Write health monitor progress to `stream` as events arrive.
+ */
+export function attachMonitorProgress(
+  events: MonitorEvents,
+  stream: ProgressStream = process.stderr
+): void {
+  events.on("round-started", (e) => {
+    stream.write(`\n  [Round ${e.round}] Checking ${e.endpoints.length} endpoint(s)...\n`);
+  });
+  events.on("endpoint-checked", ({ result, remediation }) => {
+    const statusDisplay = result.statusCode ?? "ERR";
+    const icon = result.healthy ? "OK" : "FAIL";
+    stream.write(`    [${icon}] ${result.url} -> ${statusDisplay} (${result.responseTimeMs}ms)\n`);
+    if (remediation) {
+      stream.write(
+        `    Classification: ${result.errorClass}\n` +
+          `    Recommendation: ${remediation.description}\n`
+      );
+    }
+  });
+}
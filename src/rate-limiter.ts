@@ -0,0 +1,104 @@
+/**
+ * rate-limiter.ts
+ *
+ * Small helpers for spacing out requests, e.g. to honor a robots.txt
+ * Crawl-delay or to stay polite to third-party hosts.
+ */
+
+/** Resolves once the caller may issue its next request. */
+export type Throttle = () => Promise<void>;
+
+/**
+ * Create a throttle that spaces successive callers at least `minIntervalMs`
+ * apart. Concurrent callers are queued in call order.
+ */
+export function createThrottle(minIntervalMs: number): Throttle {
+  let nextSlot = 0;
+
+  return async () => {
+    if (minIntervalMs <= 0) return;
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + minIntervalMs;
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  };
+}
+
+/** Runs a task once fewer than the limiter's concurrency are running. */
+export type ConcurrencyLimiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at a time. Waiting
+ * tasks start in call order.
+ */
+export function createConcurrencyLimiter(concurrency: number): ConcurrencyLimiter {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async (fn) => {
+    // A finishing task hands its slot straight to the next waiter
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/** Options for a per-host limiter. */
+export interface HostLimiterOptions {
+  /** Maximum concurrent requests per host. */
+  concurrency: number;
+  /** Maximum requests started per second per host (0 = unlimited). */
+  requestsPerSecond: number;
+}
+
+/** Runs a request for `url` once its host has capacity. */
+export type HostLimiter = <T>(url: string, fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that bounds concurrency and request rate independently
+ * for each host, so one slow or strict host does not hold up the others.
+ */
+export function createHostLimiter(options: HostLimiterOptions): HostLimiter {
+  const minIntervalMs =
+    options.requestsPerSecond > 0 ? 1000 / options.requestsPerSecond : 0;
+  const hosts = new Map<string, { limit: ConcurrencyLimiter; throttle: Throttle }>();
+
+  return async (url, fn) => {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = url;
+    }
+
+    let state = hosts.get(host);
+    if (!state) {
+      state = {
+        limit: createConcurrencyLimiter(options.concurrency),
+        throttle: createThrottle(minIntervalMs),
+      };
+      hosts.set(host, state);
+    }
+
+    const { limit, throttle } = state;
+    return limit(async () => {
+      await throttle();
+      return fn();
+    });
+  };
+}
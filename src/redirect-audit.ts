@@ -0,0 +1,196 @@
+/**
+ * redirect-audit.ts
+ *
+ * Audits the redirects that internal links go through: chains with too
+ * many hops, loops, HTTPS to HTTP downgrades, temporary redirects that have
+ * stayed in place across runs, and redirects that drop the query string.
+ * Each finding carries a severity and, where the chain ends at a working
+ * page, a single-hop rule that can be fed into the redirect generators.
+ */
+
+import type {
+  LinkCheckResult,
+  RedirectEntry,
+  RedirectFinding,
+  RedirectIssueType,
+  ScanResult,
+  Severity,
+} from "./types.js";
+
+/** Options for the redirect audit. */
+export interface RedirectAuditOptions {
+  /** Chains with more hops than this are flagged. Default: 1. */
+  maxHops?: number;
+  /** A previous report, to spot temporary redirects that have persisted. */
+  previous?: ScanResult | null;
+}
+
+/** Statuses of redirects that are meant to be temporary. */
+const TEMPORARY_STATUSES = new Set([302, 307]);
+
+const SEVERITY: Record<RedirectIssueType, Severity> = {
+  loop: "error",
+  "https-downgrade": "error",
+  "long-chain": "warning",
+  "query-dropped": "warning",
+  "persistent-temporary": "warning",
+};
+
+/** The path (plus query) of a URL on `origin`, or the full URL otherwise. */
+function ruleTarget(url: URL, origin: string): string {
+  return url.origin === origin ? `${url.pathname}${url.search}` : url.toString();
+}
+
+/**
+ * The single-hop rule that replaces a link's redirect chain, sending it
+ * straight to where the chain ends (upgraded to HTTPS if it downgraded).
+ */
+function collapsedRule(from: URL, final: URL, upgrade: boolean): RedirectEntry {
+  const target = new URL(final.toString());
+  if (upgrade && target.protocol === "http:") {
+    target.protocol = "https:";
+  }
+  return {
+    from: from.pathname,
+    to: ruleTarget(target, from.origin),
+    statusCode: 301,
+  };
+}
+
+/**
+ * URLs that answered with a temporary redirect in a previous report.
+ * Reports written before per-hop statuses were recorded yield none.
+ */
+function temporaryRedirectsIn(report: ScanResult): Set<string> {
+  const seen = new Set<string>();
+  for (const link of report.redirectLinks ?? []) {
+    const statuses = link.redirectStatuses ?? [];
+    link.redirectChain.forEach((hop, i) => {
+      if (TEMPORARY_STATUSES.has(statuses[i] ?? 0)) {
+        seen.add(hop);
+      }
+    });
+  }
+  return seen;
+}
+
+/**
+ * Audit the redirect chains of the given links.
+ */
+export function auditRedirects(
+  links: LinkCheckResult[],
+  options: RedirectAuditOptions = {}
+): RedirectFinding[] {
+  const maxHops = options.maxHops ?? 1;
+  const previousTemporary = options.previous
+    ? temporaryRedirectsIn(options.previous)
+    : new Set<string>();
+  const findings: RedirectFinding[] = [];
+
+  for (const link of links) {
+    if (link.redirectChain.length === 0 || !link.finalUrl) continue;
+
+    let from: URL;
+    let final: URL;
+    try {
+      from = new URL(link.redirectChain[0]!);
+      final = new URL(link.finalUrl);
+    } catch {
+      continue;
+    }
+
+    const hops = [...link.redirectChain, link.finalUrl];
+    const statuses = link.redirectStatuses ?? [];
+    const sourcePages =
+      link.referrers.length > 0 ? link.referrers.map((r) => r.page) : [link.sourcePage];
+    const add = (
+      type: RedirectIssueType,
+      message: string,
+      recommendedRedirect: RedirectEntry | null
+    ): void => {
+      findings.push({
+        type,
+        severity: SEVERITY[type],
+        href: link.href,
+        hops,
+        statuses,
+        message,
+        sourcePages,
+        recommendedRedirect,
+      });
+    };
+
+    // A loop never reaches a page, so there is nothing to collapse it to
+    if (link.redirectChain.includes(link.finalUrl)) {
+      add("loop", `Redirects loop back to ${link.finalUrl}`, null);
+      continue;
+    }
+
+    // A chain that never reached a page (too many redirects, or a hop that
+    // failed) is already reported as broken, and has no final page to
+    // collapse to: its last URL is a hop that redirects further
+    if (link.statusCode === null) continue;
+
+    const downgradeAt = hops.findIndex(
+      (hop, i) =>
+        i > 0 && hops[i - 1]!.startsWith("https:") && hop.startsWith("http:")
+    );
+    const upgrade = downgradeAt !== -1;
+    // A rule straight to a page that fails would only make the failure faster
+    const reachesPage = link.statusCode >= 200 && link.statusCode < 300;
+    const rule = reachesPage ? collapsedRule(from, final, upgrade) : null;
+
+    if (upgrade) {
+      add(
+        "https-downgrade",
+        `Redirects from HTTPS to HTTP (${hops[downgradeAt - 1]} -> ${hops[downgradeAt]})`,
+        rule
+      );
+    }
+
+    if (link.redirectChain.length > maxHops) {
+      add(
+        "long-chain",
+        `${link.redirectChain.length} redirects before reaching the page (max ${maxHops})`,
+        rule
+      );
+    }
+
+    // Collapsed rules match on the path alone, so none of them can carry
+    // the query through; the existing redirect itself needs fixing
+    if (from.search && !final.search) {
+      add(
+        "query-dropped",
+        `Query string ${from.search} is dropped on the way to ${final.pathname}; the redirect should pass it through`,
+        null
+      );
+    }
+
+    const persistent = link.redirectChain.filter(
+      (hop, i) => TEMPORARY_STATUSES.has(statuses[i] ?? 0) && previousTemporary.has(hop)
+    );
+    if (persistent.length > 0) {
+      add(
+        "persistent-temporary",
+        `Temporary redirect from ${persistent.join(", ")} was already in place in the previous run; make it permanent (301)`,
+        rule
+      );
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * The recommended rules of the audit findings, one per source path.
+ */
+export function redirectsFromAudit(findings: RedirectFinding[]): RedirectEntry[] {
+  const byFrom = new Map<string, RedirectEntry>();
+  for (const finding of findings) {
+    const rule = finding.recommendedRedirect;
+    if (rule && !byFrom.has(rule.from)) {
+      byFrom.set(rule.from, rule);
+    }
+  }
+  return Array.from(byFrom.values());
+}
@@ -7,12 +7,20 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { pathToFileURL } from "node:url";
 import type {
+  Finding,
+  LinkCheckResult,
   LinkFix,
+  MixedContentType,
   MonitorReport,
   OutputFormat,
+  PageErrorType,
   RedirectEntry,
+  RedirectFinding,
+  ResourceKind,
   ScanResult,
+  Severity,
 } from "./types.js";
 
 // ---------------------------------------------------------------------------
@@ -47,33 +55,174 @@ function dim(text: string): string {
   return `${DIM}${text}${RESET}`;
 }
 
+/** Console color for each finding severity. */
+const SEVERITY_COLORS: Record<Severity, (text: string) => string> = {
+  error,
+  warning,
+  info: dim,
+};
+
 // ---------------------------------------------------------------------------
 // Scan report
 // ---------------------------------------------------------------------------
 
+/** Section labels for non-anchor resources, in display order. */
+const RESOURCE_LABELS: Record<Exclude<ResourceKind, "link">, string> = {
+  image: "Images",
+  stylesheet: "Stylesheets",
+  script: "Scripts",
+  iframe: "Iframes",
+  media: "Video / audio",
+  form: "Form actions",
+  "css-url": "CSS url() references",
+};
+
+/**
+ * List every page a link was found on, with its text, element selector and
+ * occurrence count, and any screenshot and HTML snippet showing where it is.
+ */
+function formatReferrers(
+  link: Pick<LinkCheckResult, "referrers" | "sourcePage" | "evidence">,
+  indent: string
+): string[] {
+  if (link.referrers.length === 0) {
+    return [`${indent}${dim(`Found on: ${link.sourcePage}`)}`];
+  }
+
+  const count = link.referrers.length;
+  const lines = [
+    `${indent}${dim(`Found on ${count} page${count === 1 ? "" : "s"}:`)}`,
+  ];
+  for (const ref of link.referrers) {
+    const times = ref.occurrences > 1 ? ` x${ref.occurrences}` : "";
+    const text = ref.text ? ` "${ref.text}"` : "";
+    const where = ref.file ? `${ref.file} ${dim(`(${ref.page})`)}` : ref.page;
+    lines.push(`${indent}  ${where}${text}${times}`);
+    lines.push(`${indent}    ${dim(ref.selector)}`);
+    const evidence = link.evidence?.find((e) => e.page === ref.page);
+    if (evidence?.screenshot) {
+      const href = pathToFileURL(path.resolve(evidence.screenshot)).href;
+      lines.push(`${indent}    Screenshot: ${href}`);
+    }
+    if (evidence?.snippet) {
+      lines.push(`${indent}    ${dim(evidence.snippet)}`);
+    }
+  }
+  return lines;
+}
+
+/** Section labels for mixed content, in display order. */
+const MIXED_CONTENT_LABELS: Record<MixedContentType, string> = {
+  active: "Active content (blocked by browsers)",
+  passive: "Passive content (loaded with a warning)",
+  link: "Insecure links",
+};
+
+/** Short tags for each kind of page error. */
+const PAGE_ERROR_LABELS: Record<PageErrorType, string> = {
+  "javascript-error": "JS",
+  "console-error": "CONSOLE",
+  "request-failed": "FAILED",
+  "http-error": "HTTP",
+};
+
+/** Lines of a stack trace shown under a page error. */
+const STACK_PREVIEW_LINES = 3;
+
+/** A redirect chain with the status of each hop: "a -301-> b -302-> c". */
+function formatHops(finding: RedirectFinding): string {
+  return finding.hops
+    .map((hop, i) =>
+      i < finding.statuses.length ? `${hop} -${finding.statuses[i]}->` : hop
+    )
+    .join(" ");
+}
+
+/** A dim " [kind]" suffix for resources; empty for anchor links. */
+function kindTag(link: Pick<LinkCheckResult, "kind">): string {
+  return link.kind === "link" ? "" : ` ${dim(`[${link.kind}]`)}`;
+}
+
 function formatScanConsole(result: ScanResult): string {
   const lines: string[] = [];
 
   lines.push(heading("Site Scan Report"));
   lines.push(`Base URL:       ${result.baseUrl}`);
-  lines.push(`Pages crawled:  ${result.pagesCrawled}`);
+  if (result.rootDir) {
+    lines.push(`Directory:      ${result.rootDir}`);
+  }
+  const depths = result.crawledPages
+    .map((p) => p.depth)
+    .filter((d): d is number => d !== null);
+  lines.push(
+    depths.length > 0
+      ? `Pages crawled:  ${result.pagesCrawled} (max depth ${Math.max(...depths)})`
+      : `Pages crawled:  ${result.pagesCrawled}`
+  );
   lines.push(`Total links:    ${result.totalLinks}`);
   lines.push(`Scan time:      ${result.timestamp}`);
   lines.push("");
 
   // Broken links (404)
-  if (result.brokenLinks.length > 0) {
-    lines.push(error(`  Broken links (404): ${result.brokenLinks.length}`));
-    for (const link of result.brokenLinks) {
+  const brokenAnchors = result.brokenLinks.filter((l) => l.kind === "link");
+  const brokenResources = result.brokenLinks.filter((l) => l.kind !== "link");
+  if (brokenAnchors.length > 0) {
+    lines.push(error(`  Broken links (404): ${brokenAnchors.length}`));
+    for (const link of brokenAnchors) {
       lines.push(`    ${error("404")} ${link.href}`);
-      lines.push(`         ${dim(`Found on: ${link.sourcePage}`)}`);
+      lines.push(...formatReferrers(link, "         "));
     }
     lines.push("");
-  } else {
+  } else if (brokenResources.length === 0) {
     lines.push(success("  No broken links found."));
     lines.push("");
   }
 
+  // Broken resources (404), grouped by kind
+  if (brokenResources.length > 0) {
+    lines.push(error(`  Broken resources (404): ${brokenResources.length}`));
+    const kinds = Object.keys(RESOURCE_LABELS) as Array<
+      keyof typeof RESOURCE_LABELS
+    >;
+    for (const kind of kinds) {
+      const ofKind = brokenResources.filter((l) => l.kind === kind);
+      if (ofKind.length === 0) continue;
+      lines.push(`    ${BOLD}${RESOURCE_LABELS[kind]}${RESET} (${ofKind.length})`);
+      for (const link of ofKind) {
+        lines.push(`      ${error("404")} ${link.href}`);
+        lines.push(...formatReferrers(link, "           "));
+      }
+    }
+    lines.push("");
+  }
+
+  // Soft 404s (2xx pages showing not-found content)
+  if (result.soft404s.length > 0) {
+    lines.push(error(`  Soft 404s: ${result.soft404s.length}`));
+    for (const link of result.soft404s) {
+      lines.push(`    ${error(String(link.statusCode))} ${link.href}`);
+      lines.push(`         ${dim(link.soft404Reason ?? "Not-found content")}`);
+      lines.push(...formatReferrers(link, "         "));
+    }
+    lines.push("");
+  }
+
+  // Broken fragments (#anchor missing on target page)
+  if (result.brokenFragments.length > 0) {
+    lines.push(
+      error(`  Broken fragments: ${result.brokenFragments.length}`)
+    );
+    for (const frag of result.brokenFragments) {
+      lines.push(`    ${error("#")} ${frag.href}`);
+      lines.push(
+        `         ${dim(`No id or name "${frag.fragment}" on ${frag.targetUrl}`)}`
+      );
+      const sources = frag.sourceFiles?.length ? frag.sourceFiles : frag.sourcePages;
+      lines.push(`         ${dim(`Found on: ${sources.join(", ")}`)}`);
+    }
+    lines.push("");
+  }
+
   // Redirect chains
   if (result.redirectLinks.length > 0) {
     lines.push(
@@ -84,7 +233,115 @@ function formatScanConsole(result: ScanResult): string {
         " -> "
       );
       lines.push(`    ${warning("3xx")} ${chain}`);
-      lines.push(`         ${dim(`Found on: ${link.sourcePage}`)}`);
+      lines.push(...formatReferrers(link, "         "));
+    }
+    lines.push("");
+  }
+
+  // Redirect audit
+  if (result.redirectAudit.length > 0) {
+    lines.push(warning(`  Redirect audit: ${result.redirectAudit.length}`));
+    for (const finding of result.redirectAudit) {
+      const color = SEVERITY_COLORS[finding.severity];
+      lines.push(`    ${color(finding.type)} ${finding.href}`);
+      lines.push(`         ${finding.message}`);
+      lines.push(`         ${dim(formatHops(finding))}`);
+      const rule = finding.recommendedRedirect;
+      if (rule) {
+        lines.push(
+          `         ${dim(`Recommended: ${rule.from} -> ${rule.to} (${rule.statusCode})`)}`
+        );
+      }
+    }
+    lines.push("");
+  }
+
+  // Canonical, hreflang and meta robots problems
+  if (result.seoFindings.length > 0) {
+    lines.push(warning(`  Indexing issues: ${result.seoFindings.length}`));
+    for (const finding of result.seoFindings) {
+      const color = SEVERITY_COLORS[finding.severity];
+      lines.push(`    ${color(finding.type)} ${finding.page}`);
+      lines.push(`         ${finding.message}`);
+      if (finding.type === "noindex-in-nav") {
+        for (const page of finding.sourcePages) {
+          lines.push(`         ${dim(`Linked from: ${page}`)}`);
+        }
+      }
+    }
+    lines.push("");
+  }
+
+  // http:// references on https:// pages, grouped by how browsers treat them
+  if (result.mixedContent.length > 0) {
+    lines.push(warning(`  Mixed content: ${result.mixedContent.length}`));
+    const types = Object.keys(MIXED_CONTENT_LABELS) as MixedContentType[];
+    for (const type of types) {
+      const ofType = result.mixedContent.filter((f) => f.type === type);
+      if (ofType.length === 0) continue;
+      lines.push(`    ${BOLD}${MIXED_CONTENT_LABELS[type]}${RESET} (${ofType.length})`);
+      for (const finding of ofType) {
+        const color = SEVERITY_COLORS[finding.severity];
+        lines.push(`      ${color(finding.href)}${kindTag(finding)}`);
+        lines.push(
+          finding.suggestedHref
+            ? `           ${success(`Rewrite to ${finding.suggestedHref}`)}`
+            : `           ${dim(`No working https version (${finding.httpsStatus ?? "failed"})`)}`
+        );
+        lines.push(...formatReferrers(finding, "           "));
+      }
+    }
+    lines.push("");
+  }
+
+  // Links that work but break a link quality rule
+  if (result.lintFindings.length > 0) {
+    lines.push(warning(`  Link lint: ${result.lintFindings.length}`));
+    for (const finding of result.lintFindings) {
+      const color = SEVERITY_COLORS[finding.severity];
+      lines.push(`    ${color(finding.rule)} ${finding.href || '""'}`);
+      lines.push(`         ${finding.message}`);
+      lines.push(...formatReferrers(finding, "         "));
+    }
+    lines.push("");
+  }
+
+  // Pages serving the same content under different URLs
+  if (result.duplicateContent.length > 0) {
+    lines.push(warning(`  Duplicate content: ${result.duplicateContent.length} group(s)`));
+    for (const group of result.duplicateContent) {
+      const color = SEVERITY_COLORS[group.severity];
+      const similarity =
+        group.type === "identical" ? "" : dim(` (${Math.round(group.similarity * 100)}% similar)`);
+      lines.push(`    ${color(group.type)} ${group.pages.length} pages${similarity}`);
+      for (const page of group.pages) {
+        lines.push(`         ${page}`);
+      }
+    }
+    lines.push(`    ${dim("Pick one URL per group and point the others' canonical at it.")}`);
+    lines.push("");
+  }
+
+  // Client-side breakage seen while pages were open in the browser
+  if (result.pageErrors.length > 0) {
+    const total = result.pageErrors.reduce((n, report) => n + report.errors.length, 0);
+    lines.push(
+      warning(`  Page errors: ${total} on ${result.pageErrors.length} page(s)`)
+    );
+    for (const report of result.pageErrors) {
+      lines.push(`    ${BOLD}${report.page}${RESET}`);
+      for (const err of report.errors) {
+        const times = err.occurrences > 1 ? dim(` (x${err.occurrences})`) : "";
+        lines.push(`      ${error(PAGE_ERROR_LABELS[err.type])} ${err.message}${times}`);
+        if (err.url) {
+          lines.push(`           ${dim(err.url)}`);
+        }
+        const frames = (err.stackTrace ?? "").split("\n").slice(1, STACK_PREVIEW_LINES + 1);
+        for (const frame of frames) {
+          lines.push(`           ${dim(frame.trim())}`);
+        }
+        lines.push(`           ${dim(`Classified as ${err.errorClass}`)}`);
+      }
     }
     lines.push("");
   }
@@ -93,7 +350,10 @@ function formatScanConsole(result: ScanResult): string {
   if (result.serverErrors.length > 0) {
     lines.push(error(`  Server errors (5xx): ${result.serverErrors.length}`));
     for (const link of result.serverErrors) {
-      lines.push(`    ${error(String(link.statusCode))} ${link.href}`);
+      lines.push(
+        `    ${error(String(link.statusCode))} ${link.href}${kindTag(link)}`
+      );
+      lines.push(...formatReferrers(link, "         "));
     }
     lines.push("");
   }
@@ -104,8 +364,87 @@ function formatScanConsole(result: ScanResult): string {
       error(`  Connection errors: ${result.connectionErrors.length}`)
     );
     for (const link of result.connectionErrors) {
-      lines.push(`    ${error("ERR")} ${link.href}`);
-      lines.push(`         ${dim(link.error ?? "Unknown error")}`);
+      lines.push(`    ${error("ERR")} ${link.href}${kindTag(link)}`);
+      const tries = link.attempts > 1 ? ` (after ${link.attempts} attempts)` : "";
+      lines.push(`         ${dim(`${link.error ?? "Unknown error"}${tries}`)}`);
+    }
+    lines.push("");
+  }
+
+  // External links
+  if (result.externalBrokenLinks.length > 0) {
+    lines.push(
+      error(`  Broken external links: ${result.externalBrokenLinks.length}`)
+    );
+    for (const link of result.externalBrokenLinks) {
+      const status = link.statusCode !== null ? String(link.statusCode) : "ERR";
+      lines.push(`    ${error(status)} ${link.href}${kindTag(link)}`);
+      if (link.error) {
+        lines.push(`         ${dim(link.error)}`);
+      }
+      lines.push(...formatReferrers(link, "         "));
+    }
+    lines.push("");
+  }
+
+  // Skipped by robots.txt
+  if (result.robotsBlocked.length > 0) {
+    lines.push(
+      dim(`  Skipped (disallowed by robots.txt): ${result.robotsBlocked.length}`)
+    );
+    for (const url of result.robotsBlocked) {
+      lines.push(`    ${dim("SKIP")} ${dim(url)}`);
+    }
+    lines.push("");
+  }
+
+  // Orphan pages (sitemap vs. link graph)
+  const { unlinked, unlisted } = result.orphanPages;
+  if (unlinked.length > 0) {
+    lines.push(
+      warning(`  In sitemap but not linked from any page: ${unlinked.length}`)
+    );
+    for (const url of unlinked) {
+      lines.push(`    ${warning("ORPHAN")} ${url}`);
+    }
+    lines.push("");
+  }
+  if (unlisted.length > 0) {
+    lines.push(
+      warning(`  Crawled but missing from sitemap: ${unlisted.length}`)
+    );
+    for (const url of unlisted) {
+      lines.push(`    ${warning("UNLISTED")} ${url}`);
+    }
+    lines.push("");
+  }
+
+  // Baseline comparison
+  if (result.baselineComparison) {
+    const cmp = result.baselineComparison;
+    lines.push(
+      `  ${BOLD}Compared with baseline from ${cmp.baselineTimestamp}:${RESET}`
+    );
+    const groups: Array<[string, Finding[], (text: string) => string]> = [
+      ["New", cmp.newFindings, error],
+      ["Still present", cmp.stillPresent, warning],
+      ["Resolved", cmp.resolved, success],
+    ];
+    lines.push(
+      "    " +
+        groups
+          .map(([label, findings, color]) => color(`${label}: ${findings.length}`))
+          .join("  ")
+    );
+    for (const [label, findings, color] of groups) {
+      if (findings.length === 0) continue;
+      lines.push(`    ${color(label)}:`);
+      for (const finding of findings) {
+        const tag = dim(`[${finding.category}]`);
+        lines.push(
+          `      ${color(finding.detail || "ERR")} ${finding.url} ${tag}`
+        );
+      }
     }
     lines.push("");
   }
@@ -113,8 +452,11 @@ function formatScanConsole(result: ScanResult): string {
   // Summary
   const totalIssues =
     result.brokenLinks.length +
+    result.soft404s.length +
+    result.brokenFragments.length +
     result.serverErrors.length +
-    result.connectionErrors.length;
+    result.connectionErrors.length +
+    result.externalBrokenLinks.length;
   if (totalIssues === 0) {
     lines.push(success("  All links healthy."));
   } else {
@@ -136,7 +478,7 @@ function formatFixConsole(
 
   lines.push(heading("Link Fix Report"));
 
-  if (fixes.length === 0) {
+  if (fixes.length === 0 && redirects.length === 0) {
     lines.push("  No fixes to suggest.");
     return lines.join("\n");
   }
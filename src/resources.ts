@@ -0,0 +1,86 @@
+/**
+ * resources.ts
+ *
+ * Describes which non-anchor elements reference checkable resources
+ * (images, scripts, stylesheets, frames, media, forms) and parses the
+ * attribute formats that can hold more than one URL: `srcset` and CSS
+ * `url()` references.
+ */
+
+import type { ResourceKind } from "./types.js";
+
+/** An element attribute that references a resource of a given kind. */
+export interface ResourceSource {
+  /** CSS selector for the referencing elements. */
+  selector: string;
+  /** Attribute holding the URL (or URLs, for srcset). */
+  attribute: string;
+  /** The kind of resource referenced. */
+  kind: ResourceKind;
+}
+
+/** Every element/attribute pair the scanner checks besides <a href>. */
+export const RESOURCE_SOURCES: ResourceSource[] = [
+  { selector: "img[src]", attribute: "src", kind: "image" },
+  { selector: "img[srcset], picture source[srcset]", attribute: "srcset", kind: "image" },
+  { selector: "video[poster]", attribute: "poster", kind: "image" },
+  { selector: 'link[rel~="stylesheet" i][href]', attribute: "href", kind: "stylesheet" },
+  { selector: "script[src]", attribute: "src", kind: "script" },
+  { selector: "iframe[src]", attribute: "src", kind: "iframe" },
+  {
+    selector: "video[src], audio[src], video source[src], audio source[src]",
+    attribute: "src",
+    kind: "media",
+  },
+  // Only forms that submit with GET: a POST endpoint often answers a GET
+  // with 405 or 404 while working fine
+  {
+    selector: 'form[action]:not([method="post" i]):not([method="dialog" i])',
+    attribute: "action",
+    kind: "form",
+  },
+];
+
+/**
+ * Parse a `srcset` attribute into its candidate URLs, dropping the width
+ * and density descriptors. As in the HTML spec, a URL runs until
+ * whitespace, so commas inside it (e.g. image CDN transforms) are kept,
+ * and its descriptors run until the next comma, with or without a space
+ * after it.
+ */
+export function parseSrcset(srcset: string): string[] {
+  const urls: string[] = [];
+  const candidate = /[\s,]*(\S+)/y;
+  let match: RegExpExecArray | null;
+
+  while ((match = candidate.exec(srcset)) !== null) {
+    // Trailing commas end a candidate that has no descriptors
+    const url = match[1]!.replace(/,+$/, "");
+    if (url) {
+      urls.push(url);
+    }
+    if (url === match[1]) {
+      const comma = srcset.indexOf(",", candidate.lastIndex);
+      candidate.lastIndex = comma === -1 ? srcset.length : comma + 1;
+    }
+  }
+  return urls;
+}
+
+/**
+ * Extract the URLs referenced by `url()` in a CSS string (a <style> block,
+ * an inline style attribute or a stylesheet file). Data URIs are skipped.
+ */
+export function extractCssUrls(css: string): string[] {
+  const urls: string[] = [];
+  const pattern = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(css)) !== null) {
+    const url = match[2]!.trim();
+    if (url && !url.toLowerCase().startsWith("data:")) {
+      urls.push(url);
+    }
+  }
+  return urls;
+}
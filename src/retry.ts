@@ -0,0 +1,61 @@
+/**
+ * retry.ts
+ *
+ * Retry policy for link checks: which responses are transient, how long to
+ * back off between attempts, and how to read a server's Retry-After hint.
+ */
+
+/** Statuses that usually mean "try again later" rather than real breakage. */
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/** Upper bound for any single wait, including server-requested ones. */
+export const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Whether a response status is worth retrying.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or an HTTP date) into a delay in
+ * milliseconds. Returns null if the header is missing or unparseable.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the wait before retry number `attempt` (0-based): exponential
+ * backoff from `baseDelayMs`, capped, with jitter so that many failing
+ * checks do not retry in lockstep.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+  // Equal jitter: wait between half and all of the exponential delay
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,201 @@
+/**
+ * robots.ts
+ *
+ * Fetches and parses robots.txt so the scanner can skip disallowed paths,
+ * honor Crawl-delay, and discover sitemaps declared by the site.
+ */
+
+import { fetchFollowingRedirects } from "./auth.js";
+
+/** The user-agent token the scanner identifies itself with in robots.txt. */
+export const ROBOTS_USER_AGENT = "site-autofix";
+
+/** A single Allow or Disallow rule. */
+export interface RobotsRule {
+  /** Whether matching paths are allowed or disallowed. */
+  allow: boolean;
+  /** The path pattern (may contain `*` wildcards and a trailing `$`). */
+  pattern: string;
+}
+
+/** The robots.txt directives that apply to our user agent. */
+export interface RobotsRules {
+  /** Allow/Disallow rules from the matching user-agent group. */
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds, or null if none was given. */
+  crawlDelay: number | null;
+  /** Sitemap URLs declared anywhere in the file. */
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+/**
+ * Parse a robots.txt file and return the directives for `userAgent`.
+ *
+ * Follows the usual precedence: the group with the most specific matching
+ * user-agent token wins, falling back to the `*` group. Multiple groups for
+ * the same agent are merged.
+ */
+export function parseRobotsTxt(
+  text: string,
+  userAgent: string = ROBOTS_USER_AGENT
+): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    switch (field) {
+      case "user-agent":
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case "allow":
+      case "disallow":
+        // An empty Disallow means "allow everything" and adds no rule
+        if (current && value) {
+          current.rules.push({ allow: field === "allow", pattern: value });
+        }
+        break;
+      case "crawl-delay": {
+        const delay = parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case "sitemap":
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  // Pick the groups with the longest agent token contained in our user agent
+  const ua = userAgent.toLowerCase();
+  let bestLength = -1;
+  let matching: RobotsGroup[] = [];
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      const matches = agent === "*" || ua.includes(agent);
+      const length = agent === "*" ? 0 : agent.length;
+      if (!matches) continue;
+      if (length > bestLength) {
+        bestLength = length;
+        matching = [group];
+      } else if (length === bestLength && !matching.includes(group)) {
+        matching.push(group);
+      }
+    }
+  }
+
+  const delays = matching
+    .map((g) => g.crawlDelay)
+    .filter((d): d is number => d !== null);
+
+  return {
+    rules: matching.flatMap((g) => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+    sitemaps,
+  };
+}
+
+/**
+ * Convert a robots.txt path pattern into a regular expression.
+ */
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const escaped = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Check whether a URL may be crawled under the given robots rules.
+ *
+ * The longest matching pattern wins; on a tie, Allow beats Disallow.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = parsed.pathname + parsed.search;
+  } catch {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!patternToRegex(rule.pattern).test(target)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Fetch and parse robots.txt for an origin.
+ *
+ * A missing or unreachable robots.txt places no restrictions on the crawl.
+ * `headers` gives the request headers for each URL, redirects included.
+ */
+export async function fetchRobotsRules(
+  origin: string,
+  timeout: number,
+  headers: (url: string) => Record<string, string> = () => ({}),
+  fetchImpl: typeof fetch = fetch
+): Promise<RobotsRules> {
+  const empty: RobotsRules = { rules: [], crawlDelay: null, sitemaps: [] };
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const { response } = await fetchFollowingRedirects(
+      new URL("/robots.txt", origin).toString(),
+      {
+        signal: controller.signal,
+        headers: (url) => ({
+          "User-Agent": "site-autofix/1.0 (robots)",
+          ...headers(url),
+        }),
+        fetch: fetchImpl,
+      }
+    );
+    if (!response.ok) {
+      return empty;
+    }
+    return parseRobotsTxt(await response.text());
+  } catch {
+    return empty;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * seo-checks.ts
+ *
+ * Collects the indexing metadata of crawled pages (<link rel=canonical>,
+ * hreflang alternates, meta robots and main navigation links) and checks it
+ * for consistency across the site: canonicals that point at broken or
+ * redirecting URLs, hreflang alternates that do not link back, and noindex
+ * pages linked from the main navigation.
+ */
+
+import type { ElementReader } from "./page-extractor.js";
+import type {
+  LinkCheckResult,
+  SeoFinding,
+  SeoIssueType,
+  Severity,
+} from "./types.js";
+
+/** Selector for a page's canonical link. */
+const CANONICAL_SELECTOR = 'link[rel~="canonical" i][href]';
+
+/** Selector for a page's hreflang alternates. */
+const HREFLANG_SELECTOR = 'link[rel~="alternate" i][hreflang][href]';
+
+/** Selector for a page's meta robots tags. */
+const ROBOTS_SELECTOR = 'meta[name="robots" i][content]';
+
+/** Selector for the links of a page's main navigation. */
+const NAV_LINK_SELECTOR =
+  'nav a[href], header a[href], [role="navigation"] a[href]';
+
+const SEVERITY: Record<SeoIssueType, Severity> = {
+  "canonical-broken": "error",
+  "hreflang-not-reciprocal": "error",
+  "canonical-redirect": "warning",
+  "noindex-in-nav": "warning",
+};
+
+/** The parts of a check result the metadata checks look at. */
+export type TargetCheck = Pick<
+  LinkCheckResult,
+  "statusCode" | "finalUrl" | "redirectChain" | "error"
+>;
+
+/** An alternate language version of a page. */
+export interface HreflangAlternate {
+  /** Language (and optional region) code, or "x-default". */
+  hreflang: string;
+  /** Absolute URL of the alternate. */
+  url: string;
+}
+
+/** The indexing metadata of a page. URLs are absolute. */
+export interface PageSeo {
+  /** The canonical URL, or null if the page declares none. */
+  canonical: string | null;
+  /** hreflang alternates, in document order. */
+  alternates: HreflangAlternate[];
+  /** Lowercased meta robots directives, e.g. "noindex", "nofollow". */
+  robots: string[];
+  /** Links in the page's <nav>, <header> or role=navigation elements. */
+  navLinks: string[];
+}
+
+/** Resolve a URL against a page, or null if it is malformed. */
+function resolve(value: string | null, pageUrl: string): string | null {
+  if (!value || value.trim() === "") return null;
+  try {
+    return new URL(value.trim(), pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a page's canonical, hreflang alternates, meta robots directives and
+ * navigation links.
+ */
+export async function extractPageSeo(
+  read: ElementReader,
+  pageUrl: string
+): Promise<PageSeo> {
+  const canonicals = await read(CANONICAL_SELECTOR, "href");
+
+  // Each alternate is read twice, once per attribute, in the same order
+  const langs = await read(HREFLANG_SELECTOR, "hreflang");
+  const hrefs = await read(HREFLANG_SELECTOR, "href");
+  const alternates: HreflangAlternate[] = [];
+  langs.forEach((lang, i) => {
+    const url = resolve(hrefs[i]?.value ?? null, pageUrl);
+    if (lang.value && url) {
+      alternates.push({ hreflang: lang.value.trim().toLowerCase(), url });
+    }
+  });
+
+  const robots = (await read(ROBOTS_SELECTOR, "content")).flatMap((ref) =>
+    (ref.value ?? "")
+      .split(",")
+      .map((d) => d.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+  const navLinks = (await read(NAV_LINK_SELECTOR, "href"))
+    .map((ref) => resolve(ref.value, pageUrl))
+    .filter((url): url is string => url !== null);
+
+  return {
+    canonical: resolve(canonicals[0]?.value ?? null, pageUrl),
+    alternates,
+    robots,
+    navLinks,
+  };
+}
+
+/**
+ * Whether the robots directives keep a page out of search results.
+ */
+export function isNoindex(robots: string[]): boolean {
+  return robots.includes("noindex") || robots.includes("none");
+}
+
+/**
+ * Check the metadata of crawled pages for consistency.
+ *
+ * `pages` maps each crawled page to its metadata, keyed the same way
+ * `normalize` keys URLs. `checks` looks up the check result of a URL (e.g. a
+ * canonical target); URLs without one are skipped. hreflang pairs are only
+ * compared when both pages were crawled.
+ */
+export function findSeoIssues(
+  pages: Map<string, PageSeo>,
+  checks: (url: string) => TargetCheck | undefined,
+  normalize: (url: string) => string = (url) => url
+): SeoFinding[] {
+  const findings: SeoFinding[] = [];
+  const add = (
+    type: SeoIssueType,
+    page: string,
+    target: string | null,
+    message: string,
+    sourcePages: string[] = [page]
+  ): void => {
+    findings.push({ type, severity: SEVERITY[type], page, target, message, sourcePages });
+  };
+
+  // Pages linking to each URL from their main navigation
+  const navReferrers = new Map<string, Set<string>>();
+  for (const [page, seo] of pages) {
+    for (const link of seo.navLinks) {
+      const target = normalize(link);
+      if (target === page) continue;
+      if (!navReferrers.has(target)) {
+        navReferrers.set(target, new Set());
+      }
+      navReferrers.get(target)!.add(page);
+    }
+  }
+
+  for (const [page, seo] of pages) {
+    if (seo.canonical) {
+      const target = normalize(seo.canonical);
+      const check = checks(target);
+      if (check && (check.statusCode === null || check.statusCode >= 400)) {
+        add(
+          "canonical-broken",
+          page,
+          seo.canonical,
+          check.statusCode !== null
+            ? `Canonical points to ${seo.canonical}, which answers ${check.statusCode}`
+            : `Canonical points to ${seo.canonical}, which failed: ${check.error}`
+        );
+      } else if (check && check.redirectChain.length > 0) {
+        add(
+          "canonical-redirect",
+          page,
+          seo.canonical,
+          `Canonical points to ${seo.canonical}, which redirects to ${check.finalUrl}`
+        );
+      }
+    }
+
+    for (const alternate of seo.alternates) {
+      const target = normalize(alternate.url);
+      if (target === page) continue;
+      const other = pages.get(target);
+      if (!other) continue;
+      const linksBack = other.alternates.some((a) => normalize(a.url) === page);
+      if (!linksBack) {
+        add(
+          "hreflang-not-reciprocal",
+          page,
+          alternate.url,
+          `Lists ${alternate.url} as its "${alternate.hreflang}" alternate, but that page has no hreflang link back`
+        );
+      }
+    }
+
+    if (isNoindex(seo.robots)) {
+      const referrers = navReferrers.get(page);
+      if (referrers && referrers.size > 0) {
+        add(
+          "noindex-in-nav",
+          page,
+          null,
+          `Page is noindex but linked from the main navigation of ${referrers.size} page${referrers.size === 1 ? "" : "s"}`,
+          Array.from(referrers)
+        );
+      }
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,162 @@
+/**
+ * sitemap.ts
+ *
+ * Discovers page URLs from a site's sitemap.xml. Follows sitemap index
+ * files to their child sitemaps and transparently decompresses gzipped
+ * sitemaps (e.g. sitemap.xml.gz).
+ */
+
+import { gunzipSync } from "node:zlib";
+import { fetchFollowingRedirects } from "./auth.js";
+
+/** A parsed sitemap document. */
+export interface ParsedSitemap {
+  /** Whether this is a plain URL set or an index of other sitemaps. */
+  type: "urlset" | "sitemapindex";
+  /** The <loc> values found in the document. */
+  locations: string[];
+}
+
+/** Options for fetching sitemaps. */
+export interface SitemapOptions {
+  /** Request timeout in milliseconds. Default: 15000. */
+  timeout?: number;
+  /** Maximum number of sitemap documents to fetch (including indexes). Default: 50. */
+  maxSitemaps?: number;
+  /** Extra request headers for a sitemap URL (e.g. credentials). */
+  headers?: (url: string) => Record<string, string>;
+  /** fetch implementation to use. Default: the global fetch. */
+  fetch?: typeof fetch;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Decode the XML entities and CDATA wrapper that may appear inside <loc>.
+ */
+function decodeLoc(raw: string): string {
+  const trimmed = raw.trim();
+  const cdata = trimmed.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+  if (cdata) {
+    return cdata[1]!.trim();
+  }
+  return trimmed.replace(/&(?:amp|lt|gt|quot|apos);/g, (e) => XML_ENTITIES[e]!);
+}
+
+/**
+ * Parse a sitemap XML document into its type and listed locations.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const type = /<(?:\w+:)?sitemapindex[\s>]/i.test(xml) ? "sitemapindex" : "urlset";
+  const locations: string[] = [];
+  const locPattern = /<(?:\w+:)?loc>([\s\S]*?)<\/(?:\w+:)?loc>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = locPattern.exec(xml)) !== null) {
+    const loc = decodeLoc(match[1]!);
+    if (loc) {
+      locations.push(loc);
+    }
+  }
+
+  return { type, locations };
+}
+
+/**
+ * Decode a sitemap response body, gunzipping it if it is gzip-compressed.
+ *
+ * Servers usually send `.xml.gz` files as `application/gzip` without a
+ * `Content-Encoding` header, so fetch hands us the raw compressed bytes.
+ */
+export function decodeSitemapBody(body: Buffer): string {
+  const isGzip = body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b;
+  return (isGzip ? gunzipSync(body) : body).toString("utf-8");
+}
+
+/**
+ * Fetch a single sitemap document. Returns null if it cannot be retrieved.
+ */
+async function fetchSitemap(
+  url: string,
+  timeout: number,
+  headers: (url: string) => Record<string, string>,
+  fetchImpl: typeof fetch
+): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const { response } = await fetchFollowingRedirects(url, {
+      signal: controller.signal,
+      headers: (hopUrl) => ({
+        "User-Agent": "site-autofix/1.0 (sitemap)",
+        ...headers(hopUrl),
+      }),
+      fetch: fetchImpl,
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const body = Buffer.from(await response.arrayBuffer());
+    return decodeSitemapBody(body);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch one or more sitemaps and return every page URL they list.
+ *
+ * Sitemap indexes are followed breadth-first. Missing or malformed sitemaps
+ * are skipped, so a site without a sitemap simply yields an empty list.
+ */
+export async function fetchSitemapUrls(
+  sitemapUrls: string[],
+  options: SitemapOptions = {}
+): Promise<string[]> {
+  const timeout = options.timeout ?? 15000;
+  const maxSitemaps = options.maxSitemaps ?? 50;
+
+  const queue = [...sitemapUrls];
+  const fetched = new Set<string>();
+  const pageUrls = new Set<string>();
+
+  while (queue.length > 0 && fetched.size < maxSitemaps) {
+    const sitemapUrl = queue.shift()!;
+    if (fetched.has(sitemapUrl)) continue;
+    fetched.add(sitemapUrl);
+
+    const xml = await fetchSitemap(
+      sitemapUrl,
+      timeout,
+      options.headers ?? (() => ({})),
+      options.fetch ?? fetch
+    );
+    if (xml === null) continue;
+
+    const parsed = parseSitemap(xml);
+    for (const loc of parsed.locations) {
+      let resolved: string;
+      try {
+        resolved = new URL(loc, sitemapUrl).toString();
+      } catch {
+        continue;
+      }
+      if (parsed.type === "sitemapindex") {
+        queue.push(resolved);
+      } else {
+        pageUrls.add(resolved);
+      }
+    }
+  }
+
+  return Array.from(pageUrls);
+}
@@ -0,0 +1,166 @@
+/**
+ * soft-404.ts
+ *
+ * Detects "soft 404s": pages that answer 200 but show a not-found
+ * template, as SPA and CMS catch-all routes often do. A page is flagged
+ * when its title or text matches a not-found pattern, when its text is
+ * nearly identical to what the site serves for a URL that cannot exist,
+ * or when it has almost no text at all.
+ */
+
+import { parse } from "node-html-parser";
+
+/** Settings for soft-404 detection. */
+export interface Soft404Options {
+  /** Case-insensitive regexes matched against the page title. */
+  titlePatterns: string[];
+  /** Case-insensitive regexes matched against the page text. */
+  bodyPatterns: string[];
+  /** Pages with less visible text than this are flagged (0 disables). */
+  minTextLength: number;
+  /** Similarity to the not-found probe page above which a page is flagged. */
+  similarityThreshold: number;
+}
+
+export const DEFAULT_SOFT_404_OPTIONS: Soft404Options = {
+  // Anchored or page-specific, so articles about 404s or missing
+  // dependencies are not flagged
+  titlePatterns: [
+    "^(error )?404\\b",
+    "\\b404$",
+    "page not found",
+    "page (does not|doesn't) exist",
+  ],
+  bodyPatterns: [
+    "page not found",
+    "page you('re| are) looking for (could not|couldn't|cannot|can't) be found",
+    "(this|the) page (does not|doesn't) exist",
+    "page (is )?no longer (exists|available)",
+  ],
+  minTextLength: 20,
+  similarityThreshold: 0.9,
+};
+
+/** The rendered text of a page, as compared by the detector. */
+export interface PageText {
+  title: string;
+  text: string;
+}
+
+/**
+ * Collapse whitespace in page text.
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Extract the title and visible text of an HTML document, ignoring
+ * scripts, styles and templates.
+ */
+export function extractPageText(html: string): PageText {
+  const root = parse(html, { comment: false });
+  for (const el of root.querySelectorAll("script, style, noscript, template")) {
+    el.remove();
+  }
+  const body = root.querySelector("body") ?? root;
+  return {
+    title: normalizeText(root.querySelector("title")?.textContent ?? ""),
+    text: normalizeText(body.textContent),
+  };
+}
+
+/** Word trigrams of a text, for similarity comparison. */
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean);
+  if (words.length < 3) {
+    return new Set(words.length > 0 ? [words.join(" ")] : []);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    result.add(words.slice(i, i + 3).join(" "));
+  }
+  return result;
+}
+
+/**
+ * Jaccard similarity (0-1) of the word trigrams of two texts.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  if (sa.size === 0 && sb.size === 0) return 1;
+
+  let shared = 0;
+  for (const s of sa) {
+    if (sb.has(s)) shared++;
+  }
+  return shared / (sa.size + sb.size - shared);
+}
+
+/**
+ * A URL on `origin` that should not exist, used to learn what the site
+ * serves for missing pages.
+ */
+export function makeProbeUrl(
+  origin: string,
+  random: () => number = Math.random
+): string {
+  const token = random().toString(36).slice(2, 12);
+  return new URL(`/site-autofix-probe-${token}`, origin).toString();
+}
+
+/**
+ * Remove a page's own URL path from its text, since not-found templates
+ * often echo the requested path. Pages are compared with the probe page
+ * with both paths removed.
+ */
+export function stripPath(url: string, text: string): string {
+  const { pathname } = new URL(url);
+  if (pathname === "/") return text;
+  // Whole tokens only, so a short path like /en leaves "open" alone
+  const escaped = pathname.slice(1).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const token = new RegExp(`(?<![\\w\\-.~%])/?${escaped}(?![\\w\\-~%/]|\\.\\w)`, "g");
+  return text.replace(token, " ");
+}
+
+/**
+ * Decide whether a page that answered 2xx is really a not-found page.
+ * `probeText` is the text (with its path stripped) that the site serves for
+ * a nonexistent URL with a 2xx status, or null if it answers those with a
+ * real error status. Returns a human-readable reason, or null if the page
+ * looks genuine.
+ */
+export function detectSoft404(
+  pageUrl: string,
+  page: PageText,
+  probeText: string | null,
+  options: Soft404Options = DEFAULT_SOFT_404_OPTIONS
+): string | null {
+  for (const pattern of options.titlePatterns) {
+    if (new RegExp(pattern, "i").test(page.title)) {
+      return `Title "${page.title}" matches /${pattern}/`;
+    }
+  }
+
+  for (const pattern of options.bodyPatterns) {
+    const match = new RegExp(pattern, "i").exec(page.text);
+    if (match) {
+      return `Text "${match[0]}" matches /${pattern}/`;
+    }
+  }
+
+  if (probeText !== null) {
+    const similarity = textSimilarity(stripPath(pageUrl, page.text), probeText);
+    if (similarity >= options.similarityThreshold) {
+      return `Content is ${Math.round(similarity * 100)}% similar to the site's not-found page`;
+    }
+  }
+
+  const length = page.text.length;
+  if (length < options.minTextLength) {
+    return `Near-empty page (${length} character${length === 1 ? "" : "s"} of text)`;
+  }
+
+  return null;
+}
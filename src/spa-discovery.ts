@@ -0,0 +1,274 @@
+/**
+ * spa-discovery.ts
+ *
+ * Finds links in single-page apps that a one-shot read of the DOM misses:
+ * waits for the app to settle (network idle or a selector), scrolls to
+ * trigger lazily rendered content, and records client-side route changes
+ * by instrumenting history.pushState/replaceState and clicking the
+ * elements routers navigate with. Browser renderer only.
+ */
+
+import type { BrowserContext, Dialog, Page, Route } from "playwright";
+import type { PageReference } from "./page-extractor.js";
+
+/** When page.goto considers a page loaded. */
+export type WaitUntil = "domcontentloaded" | "load" | "networkidle";
+
+/** Settings for rendering client-side apps. */
+export interface SpaOptions {
+  /** When navigation counts as finished. */
+  waitUntil: WaitUntil;
+  /** A selector to wait for before reading the page, or null. */
+  waitForSelector: string | null;
+  /** Whether to scroll to the bottom to trigger lazy content. */
+  scroll: boolean;
+  /** Whether to record pushState/replaceState routes and click router links. */
+  captureRoutes: boolean;
+  /** Elements clicked to discover routes. */
+  routeClickSelector: string;
+  /** Most elements clicked per page. */
+  maxRouteClicks: number;
+}
+
+/** A plain document load, as before SPA support. */
+export const DEFAULT_SPA_OPTIONS: SpaOptions = {
+  waitUntil: "domcontentloaded",
+  waitForSelector: null,
+  scroll: false,
+  captureRoutes: false,
+  routeClickSelector:
+    'button, [role="link"], [role="menuitem"], [role="tab"], [data-href], [data-to], [routerlink], a:not([href])',
+  maxRouteClicks: 50,
+};
+
+/** The settings turned on by SPA mode. */
+export const SPA_MODE: Partial<SpaOptions> = {
+  waitUntil: "networkidle",
+  scroll: true,
+  captureRoutes: true,
+};
+
+/**
+ * Labels of controls that are never clicked, since clicking them may change
+ * data or end the session.
+ */
+const UNSAFE_LABEL =
+  /\b(delete|remove|destroy|log ?out|sign ?out|unsubscribe|cancel|pay|buy|purchase|checkout|submit|send|save)\b/i;
+
+/** How long to let the app react to a click or scroll, in milliseconds. */
+const SETTLE_MS = 300;
+
+/** Most scroll steps before giving up on infinite content. */
+const MAX_SCROLL_STEPS = 20;
+
+/** The globals the route recorder touches, since there is no DOM lib. */
+interface RouteRecorderGlobal {
+  __siteAutofixRoutes?: string[];
+  location: { href: string };
+  history: Record<
+    "pushState" | "replaceState",
+    (data: unknown, unused: string, url?: string | null) => void
+  >;
+  addEventListener(type: string, listener: () => void): void;
+}
+
+/** The globals the scroller touches. */
+interface ScrollGlobal {
+  scrollTo(x: number, y: number): void;
+  document: { body: { scrollHeight: number } | null };
+}
+
+/**
+ * Record every URL the app navigates to without a page load. Installed as
+ * an init script, so it must be self-contained: Playwright serializes it.
+ */
+export function installRouteRecorder(): void {
+  const g = globalThis as unknown as RouteRecorderGlobal;
+  if (g.__siteAutofixRoutes) return;
+  const routes: string[] = [];
+  g.__siteAutofixRoutes = routes;
+
+  for (const method of ["pushState", "replaceState"] as const) {
+    const original = g.history[method];
+    g.history[method] = function (this: unknown, data, unused, url) {
+      if (url !== undefined && url !== null) {
+        try {
+          routes.push(new URL(String(url), g.location.href).toString());
+        } catch {
+          // Ignore URLs the browser would reject too
+        }
+      }
+      return original.call(this, data, unused, url);
+    };
+  }
+  const recordLocation = (): void => {
+    routes.push(g.location.href);
+  };
+  g.addEventListener("popstate", recordLocation);
+  g.addEventListener("hashchange", recordLocation);
+}
+
+/**
+ * Prepare a browser context for route capture. Call before opening pages.
+ */
+export async function prepareContext(
+  context: BrowserContext,
+  options: SpaOptions
+): Promise<void> {
+  if (options.captureRoutes) {
+    await context.addInitScript(installRouteRecorder);
+  }
+}
+
+/**
+ * Wait for the app to render: for the selector, if any, then by scrolling
+ * until the page stops growing. A selector that never appears is not an
+ * error; the page is read as it is.
+ */
+export async function settlePage(
+  page: Page,
+  options: SpaOptions,
+  timeout: number
+): Promise<void> {
+  if (options.waitForSelector) {
+    await page
+      .waitForSelector(options.waitForSelector, { timeout })
+      .catch(() => undefined);
+  }
+
+  if (options.scroll) {
+    let height = -1;
+    for (let step = 0; step < MAX_SCROLL_STEPS; step++) {
+      const next = await page.evaluate(() => {
+        const g = globalThis as unknown as ScrollGlobal;
+        const scrollHeight = g.document.body?.scrollHeight ?? 0;
+        g.scrollTo(0, scrollHeight);
+        return scrollHeight;
+      });
+      if (next === height) break;
+      height = next;
+      await page.waitForTimeout(SETTLE_MS);
+    }
+  }
+}
+
+/**
+ * Click the page's router links and buttons one at a time and return every
+ * client-side route the app navigated to, plus any recorded by the route
+ * recorder during load. Controls inside forms, disabled controls and
+ * controls with destructive labels are skipped. After each navigation the
+ * page goes back, so the remaining controls can be clicked. Page loads of
+ * URLs that `isBlocked` rejects (robots.txt) are aborted; the URL is still
+ * recorded as a link.
+ */
+export async function discoverRoutes(
+  page: Page,
+  options: SpaOptions,
+  timeout: number,
+  isBlocked: (url: string) => Promise<boolean> = async () => false
+): Promise<PageReference[]> {
+  const startUrl = page.url();
+  const found = new Map<string, PageReference>();
+  const record = (url: string, text: string, selector: string): void => {
+    if (url !== startUrl && !found.has(url)) {
+      found.set(url, { url, kind: "link", text, selector });
+    }
+  };
+  const takeRecorded = (): Promise<string[]> =>
+    page.evaluate(() => {
+      const g = globalThis as unknown as RouteRecorderGlobal;
+      return (g.__siteAutofixRoutes ?? []).splice(0);
+    });
+
+  for (const url of await takeRecorded()) {
+    record(url, "", "history");
+  }
+
+  // Popups and dialogs opened by clicks would stall the crawl
+  const closePopup = (popup: Page): void => {
+    void popup.close();
+  };
+  const dismissDialog = (dialog: Dialog): void => {
+    void dialog.dismiss();
+  };
+  page.on("popup", closePopup);
+  page.on("dialog", dismissDialog);
+
+  // A click must not load a page the crawl itself may not visit
+  const blocked: string[] = [];
+  const guardNavigation = async (route: Route): Promise<void> => {
+    const request = route.request();
+    if (
+      request.isNavigationRequest() &&
+      request.resourceType() === "document" &&
+      (await isBlocked(request.url()))
+    ) {
+      blocked.push(request.url());
+      await route.abort("blockedbyclient");
+      return;
+    }
+    await route.fallback();
+  };
+  await page.route("**/*", guardNavigation);
+
+  try {
+    const candidates = page.locator(options.routeClickSelector);
+    const count = Math.min(await candidates.count(), options.maxRouteClicks);
+
+    for (let i = 0; i < count; i++) {
+      const control = candidates.nth(i);
+      const safe = await control
+        .evaluate((el, unsafe) => {
+          const label = [
+            el.textContent ?? "",
+            el.getAttribute("aria-label") ?? "",
+            el.getAttribute("title") ?? "",
+          ].join(" ");
+          return (
+            !el.closest("form") &&
+            !el.hasAttribute("disabled") &&
+            el.getAttribute("aria-disabled") !== "true" &&
+            !new RegExp(unsafe, "i").test(label)
+          );
+        }, UNSAFE_LABEL.source)
+        .catch(() => false);
+      if (!safe || !(await control.isVisible().catch(() => false))) continue;
+
+      const text = ((await control.textContent().catch(() => null)) ?? "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, 200);
+      await control
+        .click({ timeout: Math.min(timeout, 2000), noWaitAfter: true })
+        .catch(() => undefined);
+      await page.waitForTimeout(SETTLE_MS);
+
+      const selector = `${options.routeClickSelector} >> nth=${i}`;
+      const routes = await takeRecorded().catch(() => []);
+      for (const url of [...routes, ...blocked.splice(0)]) {
+        record(url, text, selector);
+      }
+      if (page.url() !== startUrl) {
+        record(page.url(), text, selector);
+        await page.goBack({ timeout }).catch(() => null);
+        if (page.url() !== startUrl) {
+          // Off the start page the remaining controls are gone, so stop
+          // with the routes found so far
+          const returned = await page
+            .goto(startUrl, { timeout, waitUntil: options.waitUntil })
+            .then(() => true)
+            .catch(() => false);
+          if (!returned) break;
+        }
+        await page.waitForTimeout(SETTLE_MS);
+        await takeRecorded().catch(() => []);
+      }
+    }
+  } finally {
+    page.off("popup", closePopup);
+    page.off("dialog", dismissDialog);
+    await page.unroute("**/*", guardNavigation).catch(() => undefined);
+  }
+
+  return Array.from(found.values());
+}
@@ -0,0 +1,138 @@
+/**
+ * static-renderer.ts
+ *
+ * Renders pages without a browser: fetches the HTML and parses it. Much
+ * faster than Playwright and needs no browser install, but only sees links
+ * present in the server-rendered HTML.
+ */
+
+import { parse, type HTMLElement } from "node-html-parser";
+import { credentialHeaders, fetchFollowingRedirects, type Credentials } from "./auth.js";
+import { fingerprintPage } from "./duplicate-content.js";
+import { extractPageLinks } from "./link-lint.js";
+import { extractPageSeo } from "./seo-checks.js";
+import { extractPageText } from "./soft-404.js";
+import {
+  ANCHOR_SELECTOR,
+  describeElements,
+  extractReferences,
+  isHtmlContentType,
+  nonHtmlPage,
+  toAnchorSet,
+  type DomElement,
+  type ElementReader,
+  type RenderOptions,
+  type RenderedPage,
+} from "./page-extractor.js";
+
+/** Options for fetching a page without a browser. */
+export interface StaticRenderOptions extends RenderOptions {
+  /** Credentials to send, or null for anonymous requests. */
+  credentials: Credentials | null;
+  /** fetch implementation to use. Default: the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Adapt a parsed element to the DOM API that describeElements expects.
+ * The parser's document root is not an element, so it ends the parent chain.
+ */
+function toDomElement(el: HTMLElement): DomElement {
+  return {
+    id: el.id,
+    tagName: el.tagName,
+    textContent: el.textContent,
+    get parentElement() {
+      const parent = el.parentNode;
+      return parent && parent.tagName ? toDomElement(parent) : null;
+    },
+    get previousElementSibling() {
+      const sib = el.previousElementSibling;
+      return sib ? toDomElement(sib) : null;
+    },
+    getAttribute: (name) => el.getAttribute(name) ?? null,
+    querySelectorAll: (selector) => el.querySelectorAll(selector).map(toDomElement),
+  };
+}
+
+/**
+ * Extract the anchors, references, text and metadata of an HTML document.
+ */
+export async function parseStaticPage(
+  html: string,
+  pageUrl: string,
+  status: number | null,
+  options: Pick<
+    RenderOptions,
+    | "includeAnchors"
+    | "includeResources"
+    | "includeText"
+    | "includeSeo"
+    | "includeLinks"
+    | "includeFingerprint"
+  >
+): Promise<RenderedPage> {
+  const root = parse(html, { comment: false });
+  const read: ElementReader = async (selector, attribute) =>
+    describeElements(root.querySelectorAll(selector).map(toDomElement), attribute);
+
+  const anchors = options.includeAnchors
+    ? toAnchorSet(
+        root
+          .querySelectorAll(ANCHOR_SELECTOR)
+          .flatMap((el) => [el.getAttribute("id"), el.getAttribute("name")])
+      )
+    : null;
+
+  const references = await extractReferences(read, pageUrl, options.includeResources);
+
+  return {
+    url: pageUrl,
+    status,
+    anchors,
+    references,
+    text: options.includeText ? extractPageText(html) : null,
+    seo: options.includeSeo ? await extractPageSeo(read, pageUrl) : null,
+    links: options.includeLinks ? await extractPageLinks(read, pageUrl) : null,
+    fingerprint: options.includeFingerprint ? fingerprintPage(html) : null,
+    errors: null,
+  };
+}
+
+/**
+ * Fetch a page and extract its anchors, references and text. Responses
+ * that are not HTML yield no references, anchors, text or metadata.
+ */
+export async function fetchStaticPage(
+  url: string,
+  options: StaticRenderOptions
+): Promise<RenderedPage> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
+  try {
+    const { response, url: finalUrl } = await fetchFollowingRedirects(url, {
+      signal: controller.signal,
+      headers: (hopUrl) => ({
+        "User-Agent": "site-autofix/1.0 (crawler)",
+        Accept: "text/html,application/xhtml+xml",
+        ...(options.credentials ? credentialHeaders(options.credentials, hopUrl) : {}),
+      }),
+      fetch: options.fetch,
+    });
+
+    if (!isHtmlContentType(response.headers.get("content-type"))) {
+      await response.body?.cancel();
+      return nonHtmlPage(finalUrl, response.status);
+    }
+
+    return await parseStaticPage(
+      await response.text(),
+      finalUrl,
+      response.status,
+      options
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
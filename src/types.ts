@@ -2,14 +2,43 @@
  * Shared type definitions for site-autofix.
  */
 
+/** What kind of element references a checked URL. */
+export type ResourceKind =
+  | "link"
+  | "image"
+  | "stylesheet"
+  | "script"
+  | "iframe"
+  | "media"
+  | "form"
+  | "css-url";
+
+/** A page that references a checked URL, and where on the page it does so. */
+export interface LinkReferrer {
+  /** The referring page. */
+  page: string;
+  /** Anchor text of the first reference (alt/title/aria-label as fallback). */
+  text: string;
+  /** CSS selector locating the first referencing element on the page. */
+  selector: string;
+  /** Number of times the page references the URL. */
+  occurrences: number;
+  /** File the referring page was read from, for directory scans. */
+  file?: string;
+}
+
 /** Result of checking a single link. */
 export interface LinkCheckResult {
-  /** The source page where this link was found. */
+  /** The first source page where this link was found. */
   sourcePage: string;
+  /** Every page that references this link, in discovery order. */
+  referrers: LinkReferrer[];
   /** The href value from the anchor tag. */
   href: string;
   /** Fully resolved URL. */
   resolvedUrl: string;
+  /** Whether this is an <a href> link or a resource (image, script, etc.). */
+  kind: ResourceKind;
   /** HTTP status code returned, or null if the request failed entirely. */
   statusCode: number | null;
   /** Whether this link redirected (3xx). */
@@ -18,30 +47,172 @@ export interface LinkCheckResult {
   finalUrl: string | null;
   /** The full redirect chain, if applicable. */
   redirectChain: string[];
+  /** Status code of each redirect in redirectChain (e.g. 301, 302). */
+  redirectStatuses: number[];
   /** Error message if the request failed. */
   error: string | null;
+  /** Number of requests made, including retries of transient failures. */
+  attempts: number;
+  /** Why a 2xx page looks like a missing page, for soft 404s. */
+  soft404Reason?: string;
+  /** Where a broken link appears on its referring pages, when evidence was captured. */
+  evidence?: LinkEvidence[];
+}
+
+/** Where a broken link appears on one of its referring pages. */
+export interface LinkEvidence {
+  /** The referring page. */
+  page: string;
+  /** Selector of the link element on the page. */
+  selector: string;
+  /** Path of a screenshot with the element outlined, or null if none was taken. */
+  screenshot: string | null;
+  /** Trimmed HTML around the element, or null if it was not found on the page. */
+  snippet: string | null;
 }
 
 /** Summary of a full site scan. */
 export interface ScanResult {
   /** The root URL that was scanned. */
   baseUrl: string;
+  /** The directory the site was read from, for directory scans. */
+  rootDir?: string;
   /** Total number of internal links checked. */
   totalLinks: number;
   /** Total number of unique pages crawled. */
   pagesCrawled: number;
+  /** Every crawled page with its click depth from the root. */
+  crawledPages: CrawledPage[];
   /** Links that returned 404. */
   brokenLinks: LinkCheckResult[];
+  /** Links to pages that answer 2xx but show not-found content. */
+  soft404s: LinkCheckResult[];
   /** Links that involved redirects (3xx). */
   redirectLinks: LinkCheckResult[];
+  /** Problems found in the redirects of internal links. */
+  redirectAudit: RedirectFinding[];
+  /** Problems with the canonical, hreflang and robots metadata of crawled pages. */
+  seoFindings: SeoFinding[];
+  /** http:// links and resources found on https:// pages. */
+  mixedContent: MixedContentFinding[];
+  /** JavaScript errors and failed requests seen on crawled pages. Only populated by the browser renderer. */
+  pageErrors: PageErrorReport[];
+  /** Links that break link quality rules (generic text, unsafe target=_blank, ...). */
+  lintFindings: LinkLintFinding[];
+  /** Groups of pages with identical or near-identical content and no canonical between them. */
+  duplicateContent: DuplicateContentGroup[];
   /** Links that returned server errors (5xx). */
   serverErrors: LinkCheckResult[];
   /** Links that failed to connect. */
   connectionErrors: LinkCheckResult[];
+  /** Links whose #fragment does not match any anchor on the target page. */
+  brokenFragments: BrokenFragment[];
+  /** External links (other origins) that failed or returned 4xx/5xx. Only populated when external checking is enabled. */
+  externalBrokenLinks: LinkCheckResult[];
+  /** URLs that were neither crawled nor checked because robots.txt disallows them. */
+  robotsBlocked: string[];
+  /** Pages that are disconnected from either the link graph or the sitemap. */
+  orphanPages: OrphanPages;
+  /** Comparison with a previous report, when the scan was run against a baseline. */
+  baselineComparison?: BaselineComparison;
   /** Timestamp of the scan. */
   timestamp: string;
 }
 
+/** The kinds of issue a scan can report. */
+export type FindingCategory =
+  | "broken-link"
+  | "soft-404"
+  | "broken-fragment"
+  | "server-error"
+  | "connection-error"
+  | "external-broken-link";
+
+/** A single issue found by a scan, in a form comparable across runs. */
+export interface Finding {
+  /** What kind of issue this is. */
+  category: FindingCategory;
+  /** The affected URL (including the fragment, for broken fragments). */
+  url: string;
+  /** Status code, error message, or missing fragment. */
+  detail: string;
+  /** Pages that reference the URL. */
+  sourcePages: string[];
+}
+
+/** Findings of a scan classified against a baseline report. */
+export interface BaselineComparison {
+  /** Timestamp of the baseline report. */
+  baselineTimestamp: string;
+  /** Findings not present in the baseline. */
+  newFindings: Finding[];
+  /** Findings present in both the baseline and this scan. */
+  stillPresent: Finding[];
+  /** Baseline findings that no longer occur. */
+  resolved: Finding[];
+}
+
+/** A link to a #fragment that does not exist on the (healthy) target page. */
+export interface BrokenFragment {
+  /** Finding type discriminator. */
+  kind: "broken-fragment";
+  /** The full link, including the fragment. */
+  href: string;
+  /** The target page URL, without the fragment. */
+  targetUrl: string;
+  /** The decoded fragment that could not be found. */
+  fragment: string;
+  /** Pages that link to this fragment. */
+  sourcePages: string[];
+  /** Files the linking pages were read from, for directory scans. */
+  sourceFiles?: string[];
+  /** The id and name anchors that do exist on the target page. */
+  availableAnchors: string[];
+}
+
+/** A crawled page and how deep in the site it sits. */
+export interface CrawledPage {
+  /** The page URL. */
+  url: string;
+  /** Fewest clicks from the root to reach the page, or null if no crawled page links to it. */
+  depth: number | null;
+  /** Fingerprint of the page's main content; absent for pages too short to compare. */
+  fingerprint?: ContentFingerprint;
+}
+
+/** A fingerprint of a page's main content, comparable across pages and scans. */
+export interface ContentFingerprint {
+  /** SHA-256 of the normalized text: equal for identical content. */
+  hash: string;
+  /** 64-bit simhash of the text's word trigrams, as 16 hex digits: close for similar content. */
+  simhash: string;
+  /** Number of words in the main content. */
+  words: number;
+}
+
+/** Whether pages serve the same content exactly or nearly. */
+export type DuplicateContentType = "identical" | "near-duplicate";
+
+/** Crawled pages that serve the same content without a canonical between them. */
+export interface DuplicateContentGroup {
+  /** Whether the content is identical or only near-identical. */
+  type: DuplicateContentType;
+  /** How urgently it should be fixed. */
+  severity: Severity;
+  /** The duplicate pages, none of which names another as its canonical. */
+  pages: string[];
+  /** Lowest simhash similarity (0-1) between two pages of the group. */
+  similarity: number;
+}
+
+/** Pages that appear in only one of the sitemap and the crawled link graph. */
+export interface OrphanPages {
+  /** Pages listed in the sitemap that no crawled page links to. */
+  unlinked: string[];
+  /** Crawled pages that answered 2xx (and are not soft 404s) but are missing from the sitemap. */
+  unlisted: string[];
+}
+
 /** A proposed fix for a broken link. */
 export interface LinkFix {
   /** The original broken href. */
@@ -51,7 +222,14 @@ export interface LinkFix {
   /** Confidence score 0-1 for the suggestion. */
   confidence: number;
   /** How the fix was determined: fuzzy match, redirect target, etc. */
-  method: "fuzzy-match" | "redirect-target" | "path-similarity" | "manual";
+  method:
+    | "fuzzy-match"
+    | "redirect-target"
+    | "path-similarity"
+    | "closest-anchor"
+    | "https-upgrade"
+    | "content-match"
+    | "manual";
   /** Source pages that reference this broken link. */
   sourcePages: string[];
 }
@@ -66,6 +244,151 @@ export interface RedirectEntry {
   statusCode: 301 | 302;
 }
 
+/** Problems the redirect audit looks for. */
+export type RedirectIssueType =
+  | "long-chain"
+  | "loop"
+  | "https-downgrade"
+  | "persistent-temporary"
+  | "query-dropped";
+
+/** How urgently a finding should be addressed. */
+export type Severity = "error" | "warning" | "info";
+
+/** A problem with how an internal link redirects. */
+export interface RedirectFinding {
+  /** What is wrong. */
+  type: RedirectIssueType;
+  /** How urgently it should be fixed. */
+  severity: Severity;
+  /** The link as found on the site. */
+  href: string;
+  /** Every URL visited, from the link to where the redirects ended. */
+  hops: string[];
+  /** Status code of each redirect in the chain. */
+  statuses: number[];
+  /** Human-readable explanation. */
+  message: string;
+  /** Pages that link to `href`. */
+  sourcePages: string[];
+  /** A single-hop rule that replaces the chain, or null if none can be recommended. */
+  recommendedRedirect: RedirectEntry | null;
+}
+
+/** Kinds of problem found in page indexing metadata. */
+export type SeoIssueType =
+  | "canonical-broken"
+  | "canonical-redirect"
+  | "hreflang-not-reciprocal"
+  | "noindex-in-nav";
+
+/** A problem with a page's canonical, hreflang or meta robots tags. */
+export interface SeoFinding {
+  /** What is wrong. */
+  type: SeoIssueType;
+  /** How urgently it should be fixed. */
+  severity: Severity;
+  /** The crawled page the finding is about. */
+  page: string;
+  /** The URL the page's metadata points at, if any. */
+  target: string | null;
+  /** Human-readable explanation. */
+  message: string;
+  /** Pages that cause the problem, e.g. those linking to a noindex page from their navigation. */
+  sourcePages: string[];
+}
+
+/**
+ * How an insecure reference on a secure page is treated by browsers:
+ * active content (scripts, stylesheets, iframes, forms) is blocked, passive
+ * content (images, media) loads with a warning, and links just leave HTTPS.
+ */
+export type MixedContentType = "active" | "passive" | "link";
+
+/** An http:// URL referenced from an https:// page. */
+export interface MixedContentFinding {
+  /** How browsers treat the reference. */
+  type: MixedContentType;
+  /** How urgently it should be fixed. */
+  severity: Severity;
+  /** The insecure URL as referenced. */
+  href: string;
+  /** The element kind that references it. */
+  kind: ResourceKind;
+  /** The same URL over https. */
+  httpsUrl: string;
+  /** Status of the https URL (after redirects), or null if it failed. */
+  httpsStatus: number | null;
+  /** Whether the https URL answers 2xx, so the reference can simply be upgraded. */
+  httpsAvailable: boolean;
+  /** The rewrite to apply, or null if there is no working https version. */
+  suggestedHref: string | null;
+  /** The first secure page the reference was found on. */
+  sourcePage: string;
+  /** Every secure page that references the URL. */
+  referrers: LinkReferrer[];
+}
+
+/** The built-in link lint rules. */
+export type LinkLintRuleId =
+  | "empty-text"
+  | "generic-text"
+  | "unsafe-target-blank"
+  | "internal-nofollow"
+  | "javascript-href"
+  | "empty-href"
+  | "internal-redirect"
+  | "absolute-internal";
+
+/** A link that works but breaks a link quality rule. */
+export interface LinkLintFinding {
+  /** The rule that flagged the link: a LinkLintRuleId, or the id of a custom rule. */
+  rule: string;
+  /** How urgently it should be fixed. */
+  severity: Severity;
+  /** The href as written on the first page it was flagged on. */
+  href: string;
+  /** Human-readable explanation, for the first page it was flagged on. */
+  message: string;
+  /** The first page the link was flagged on. */
+  sourcePage: string;
+  /** Every page where the link breaks the rule. */
+  referrers: LinkReferrer[];
+}
+
+/** The kinds of client-side problem seen while a page is open in the browser. */
+export type PageErrorType =
+  | "javascript-error"
+  | "console-error"
+  | "request-failed"
+  | "http-error";
+
+/** A client-side problem seen while a crawled page was open in the browser. */
+export interface PageError {
+  /** An uncaught exception, a console.error call, a request that got no response, or a 4xx/5xx subresource. */
+  type: PageErrorType;
+  /** The exception message, console text, or failure reason. */
+  message: string;
+  /** The URL of the failed request, or of the script that logged the error; null if unknown. */
+  url: string | null;
+  /** HTTP status, for http-error entries; null otherwise. */
+  statusCode: number | null;
+  /** Stack trace found in the error or response body, if any. */
+  stackTrace: string | null;
+  /** Classification by the health monitor's rules. */
+  errorClass: ErrorClass;
+  /** How many times the same error was seen on the page. */
+  occurrences: number;
+}
+
+/** The client-side problems seen on one crawled page. */
+export interface PageErrorReport {
+  /** The crawled page. */
+  page: string;
+  /** Its errors, in the order first seen. */
+  errors: PageError[];
+}
+
 /** Supported redirect config formats. */
 export type RedirectFormat = "nextjs" | "netlify" | "nginx";
 
@@ -127,5 +450,11 @@ export interface MonitorReport {
   timestamp: string;
 }
 
+/** How the scanner renders pages: a real browser, or fetch + HTML parsing. */
+export type RendererName = "browser" | "static";
+
+/** How URL normalization treats trailing slashes. */
+export type TrailingSlashMode = "strip" | "add" | "keep";
+
 /** Output format for the reporter. */
 export type OutputFormat = "json" | "console" | "both";
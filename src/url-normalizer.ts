@@ -0,0 +1,136 @@
+/**
+ * url-normalizer.ts
+ *
+ * Turns URL variants that serve the same page into one canonical form, so
+ * each page is crawled, checked and reported once. Normalization is driven
+ * by declarative rules: dropping query parameters by name or glob, sorting
+ * parameters, lowercasing the path, stripping index files and mapping
+ * trailing slashes. The fragment is always removed.
+ */
+
+import type { TrailingSlashMode } from "./types.js";
+
+/** Rules for normalizing URLs. */
+export interface NormalizationRules {
+  /** Query parameters to drop, by name or glob (e.g. "utm_*"), case-insensitively. */
+  dropParams: string[];
+  /** Whether to sort query parameters by name. */
+  sortParams: boolean;
+  /** Whether to lowercase the path (only safe on case-insensitive servers). */
+  lowercasePath: boolean;
+  /** File names that serve their directory, e.g. "index.html"; stripped from the path. */
+  stripIndexFiles: string[];
+  /** Whether to strip, add or keep trailing slashes (the root path always keeps its slash). */
+  trailingSlash: TrailingSlashMode;
+}
+
+/** Matches the behavior before rules were configurable. */
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRules = {
+  dropParams: [],
+  sortParams: false,
+  lowercasePath: false,
+  stripIndexFiles: [],
+  trailingSlash: "strip",
+};
+
+/** Analytics and ad click parameters that never change page content. */
+export const TRACKING_PARAMS = [
+  "utm_*",
+  "gclid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_hsenc",
+  "_hsmi",
+];
+
+/** Compile a parameter name glob ("utm_*", "sess?id") to a regex. */
+function globToRegex(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((ch) =>
+      ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Build a function that normalizes URLs according to `rules`. Unparseable
+ * URLs are returned unchanged.
+ */
+export function createNormalizer(
+  rules: Partial<NormalizationRules> = {}
+): (url: string) => string {
+  const r = { ...DEFAULT_NORMALIZATION_RULES, ...rules };
+  const dropped = r.dropParams.map(globToRegex);
+  const isDropped = (name: string): boolean => dropped.some((re) => re.test(name));
+  const indexFiles = new Set(r.stripIndexFiles.map((f) => f.toLowerCase()));
+
+  return (url: string): string => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+    parsed.hash = "";
+
+    if (dropped.length > 0) {
+      // Session ids are also passed as path parameters: /cart;jsessionid=ABC
+      if (parsed.pathname.includes(";")) {
+        parsed.pathname = parsed.pathname
+          .split("/")
+          .map((segment) =>
+            segment
+              .split(";")
+              .filter((part, i) => i === 0 || !isDropped(part.split("=")[0]!))
+              .join(";")
+          )
+          .join("/");
+      }
+      // Only rewrite the query when needed, since that re-encodes it
+      const names = Array.from(new Set(parsed.searchParams.keys()));
+      if (names.some(isDropped)) {
+        for (const name of names.filter(isDropped)) {
+          parsed.searchParams.delete(name);
+        }
+        if (parsed.searchParams.toString() === "") {
+          parsed.search = "";
+        }
+      }
+    }
+
+    if (r.sortParams && parsed.search) {
+      parsed.searchParams.sort();
+    }
+
+    let pathname = parsed.pathname;
+    if (r.lowercasePath) {
+      pathname = pathname.toLowerCase();
+    }
+
+    if (indexFiles.size > 0) {
+      const last = pathname.slice(pathname.lastIndexOf("/") + 1);
+      if (indexFiles.has(last.toLowerCase())) {
+        pathname = pathname.slice(0, pathname.length - last.length);
+      }
+    }
+
+    if (r.trailingSlash === "strip" && pathname !== "/" && pathname.endsWith("/")) {
+      pathname = pathname.slice(0, -1);
+    } else if (r.trailingSlash === "add" && !pathname.endsWith("/")) {
+      // Paths that name a file (/app.js) keep their form
+      const last = pathname.slice(pathname.lastIndexOf("/") + 1);
+      if (!last.includes(".")) {
+        pathname = `${pathname}/`;
+      }
+    }
+
+    parsed.pathname = pathname;
+    return parsed.toString();
+  };
+}